@@ -117,7 +117,7 @@ export default async function SignInPage({
   async function signInWithGoogle() {
     'use server'
 
-    const authUrl = googleOAuthAuthenticator.getAuthUrl('sign-in')
+    const authUrl = await googleOAuthAuthenticator.getAuthUrl('sign-in')
     redirect(authUrl)
   }
 
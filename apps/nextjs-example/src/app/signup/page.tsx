@@ -118,7 +118,7 @@ export default async function SignUpPage({
   async function signUpWithGoogle() {
     'use server'
 
-    const authUrl = googleOAuthAuthenticator.getAuthUrl('sign-up')
+    const authUrl = await googleOAuthAuthenticator.getAuthUrl('sign-up')
     redirect(authUrl)
   }
 
@@ -1,12 +1,12 @@
 import { KenmonAuthService } from 'kenmon'
 import { KenmonNextJSAdapter } from '@kenmon/nextjs-adapter'
 import { config } from '../config'
-import { DrizzleSessionStorage } from '@shared/storage/drizzleStorage'
+import { KenmonDrizzleStorage } from '@kenmon/drizzle-storage/pg'
 import { db } from '../db'
 
 export const auth = new KenmonAuthService({
   secret: config.sessionSecret,
   session: {},
   adapter: new KenmonNextJSAdapter(),
-  storage: new DrizzleSessionStorage(db),
+  storage: new KenmonDrizzleStorage(db),
 })
@@ -1,11 +1,11 @@
 import { KenmonEmailOTPAuthenticator } from '@kenmon/email-otp-authenticator'
-import { DrizzleEmailOTPStorage } from '@shared/storage/drizzleStorage'
+import { KenmonDrizzleEmailOTPStorage } from '@kenmon/drizzle-storage/pg'
 import { MockMailer } from '@shared/mailers/mockMailer'
 import { db } from '../../db'
 
 export const emailOTPAuthenticator = new KenmonEmailOTPAuthenticator({
   mailer: new MockMailer(),
-  otpStorage: new DrizzleEmailOTPStorage(db),
+  otpStorage: new KenmonDrizzleEmailOTPStorage(db),
   otpTtl: 300,
   otpLength: 6,
   emailFrom: 'noreply@kenmon.dev',
@@ -1,4 +1,5 @@
 import { KenmonGoogleOAuthAuthenticator } from '@kenmon/google-oauth-authenticator'
+import { KenmonReactRouterAdapter } from '@kenmon/react-router-adapter'
 import { config } from '../../config'
 
 export const googleOAuthAuthenticator = new KenmonGoogleOAuthAuthenticator({
@@ -6,4 +7,5 @@ export const googleOAuthAuthenticator = new KenmonGoogleOAuthAuthenticator({
   clientSecret: config.googleOAuth.clientSecret,
   redirectUri: config.googleOAuth.redirectUri,
   secret: config.sessionSecret,
+  adapter: new KenmonReactRouterAdapter(),
 })
@@ -104,7 +104,7 @@ export async function action({ request }: Route.ActionArgs) {
   }
 
   if (intent === 'signInWithGoogle') {
-    const authUrl = googleOAuthAuthenticator.getAuthUrl('sign-in')
+    const authUrl = await googleOAuthAuthenticator.getAuthUrl('sign-in')
     throw redirect(authUrl)
   }
 
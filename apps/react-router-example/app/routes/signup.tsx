@@ -105,7 +105,7 @@ export async function action({ request }: Route.ActionArgs) {
   }
 
   if (intent === 'signUpWithGoogle') {
-    const authUrl = googleOAuthAuthenticator.getAuthUrl('sign-up')
+    const authUrl = await googleOAuthAuthenticator.getAuthUrl('sign-up')
     throw redirect(authUrl)
   }
 
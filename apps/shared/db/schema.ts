@@ -1,77 +1,2 @@
-import {
-  pgTable,
-  uuid,
-  varchar,
-  timestamp,
-  boolean,
-  text,
-  jsonb,
-  uniqueIndex,
-} from 'drizzle-orm/pg-core'
-import { relations } from 'drizzle-orm'
-
-export const users = pgTable('users', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
-  createdAt: timestamp('created_at').notNull().defaultNow(),
-  updatedAt: timestamp('updated_at').notNull().defaultNow(),
-})
-
-export const userIdentifiers = pgTable(
-  'user_identifiers',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    userId: uuid('user_id')
-      .notNull()
-      .references(() => users.id, { onDelete: 'cascade' }),
-    type: varchar('type', { length: 50 }).notNull(),
-    value: varchar('value', { length: 255 }).notNull(),
-    data: jsonb('data'),
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at').notNull().defaultNow(),
-  },
-  (t) => [uniqueIndex('type_value_idx').on(t.type, t.value)],
-)
-
-export const userIdentifiersRelations = relations(
-  userIdentifiers,
-  ({ one }) => ({
-    user: one(users, {
-      fields: [userIdentifiers.userId],
-      references: [users.id],
-    }),
-  }),
-)
-
-export const usersRelations = relations(users, ({ many }) => ({
-  identifiers: many(userIdentifiers),
-  sessions: many(sessions),
-}))
-
-export const sessions = pgTable('sessions', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  userId: uuid('user_id')
-    .notNull()
-    .references(() => users.id, { onDelete: 'cascade' }),
-  token: text('token').notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
-  invalidated: boolean('invalidated').notNull().default(false),
-  invalidatedAt: timestamp('invalidated_at'),
-  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
-  mfaVerified: boolean('mfa_verified').notNull().default(false),
-  ipAddress: varchar('ip_address', { length: 45 }),
-  userAgent: text('user_agent'),
-  createdAt: timestamp('created_at').notNull().defaultNow(),
-  refreshedAt: timestamp('refreshed_at').notNull().defaultNow(),
-  usedAt: timestamp('used_at').notNull().defaultNow(),
-})
-
-export const otps = pgTable('otps', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  email: varchar('email', { length: 255 }).notNull(),
-  code: varchar('code', { length: 10 }).notNull(),
-  signature: varchar('signature', { length: 100 }).notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
-  used: boolean('used').notNull().default(false),
-  createdAt: timestamp('created_at').notNull().defaultNow(),
-})
+// Kenmon tables (users, user_identifiers, sessions, otps), add app tables below
+export * from '@kenmon/drizzle-storage/pg'
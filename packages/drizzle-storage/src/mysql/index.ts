@@ -0,0 +1,7 @@
+export * from './schema'
+export {
+  KenmonDrizzleStorage,
+  KenmonDrizzleEmailOTPStorage,
+  type KenmonDrizzleMySqlDatabase,
+  type KenmonDrizzleMySqlUser,
+} from './storage'
@@ -0,0 +1,143 @@
+import crypto from 'crypto'
+import {
+  mysqlTable,
+  varchar,
+  datetime,
+  boolean,
+  int,
+  text,
+  json,
+  uniqueIndex,
+  index,
+} from 'drizzle-orm/mysql-core'
+import { relations } from 'drizzle-orm'
+
+// MySQL has no RETURNING, so IDs are generated here to read rows back
+const id = () =>
+  varchar('id', { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID())
+
+// DATETIME(3) keeps milliseconds and is not limited to 2038 like TIMESTAMP
+const timestamp = (name: string) => datetime(name, { fsp: 3 })
+
+export const users = mysqlTable('users', {
+  id: id(),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  failedAttempts: int('failed_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+})
+
+export const userIdentifiers = mysqlTable(
+  'user_identifiers',
+  {
+    id: id(),
+    userId: varchar('user_id', { length: 36 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: varchar('type', { length: 50 }).notNull(),
+    value: varchar('value', { length: 255 }).notNull(),
+    data: json('data'),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [uniqueIndex('type_value_idx').on(t.type, t.value)],
+)
+
+export const sessions = mysqlTable('sessions', {
+  id: id(),
+  userId: varchar('user_id', { length: 36 })
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull(), // SHA-256 hex, never the raw token
+  expiresAt: timestamp('expires_at').notNull(),
+  invalidated: boolean('invalidated').notNull().default(false),
+  invalidatedAt: timestamp('invalidated_at'),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  mfaVerified: boolean('mfa_verified').notNull().default(false),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  refreshedAt: timestamp('refreshed_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  usedAt: timestamp('used_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  authenticatedAt: timestamp('authenticated_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  impersonatorId: varchar('impersonator_id', { length: 36 }).references(
+    () => users.id,
+    { onDelete: 'cascade' },
+  ),
+})
+
+export const otps = mysqlTable('otps', {
+  id: id(),
+  email: varchar('email', { length: 255 }).notNull(),
+  code: varchar('code', { length: 10 }).notNull(),
+  signature: varchar('signature', { length: 100 }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  used: boolean('used').notNull().default(false),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+})
+
+export const recoveryCodes = mysqlTable(
+  'recovery_codes',
+  {
+    id: id(),
+    userId: varchar('user_id', { length: 36 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 hex
+    createdAt: timestamp('created_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index('recovery_codes_user_id_idx').on(t.userId)],
+)
+
+export const usersRelations = relations(users, ({ many }) => ({
+  identifiers: many(userIdentifiers),
+  sessions: many(sessions),
+  recoveryCodes: many(recoveryCodes),
+}))
+
+export const userIdentifiersRelations = relations(
+  userIdentifiers,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [userIdentifiers.userId],
+      references: [users.id],
+    }),
+  }),
+)
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}))
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}))
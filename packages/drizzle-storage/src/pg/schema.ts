@@ -0,0 +1,113 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  boolean,
+  integer,
+  text,
+  jsonb,
+  uniqueIndex,
+  index,
+} from 'drizzle-orm/pg-core'
+import { relations } from 'drizzle-orm'
+
+export const users = pgTable('users', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+})
+
+export const userIdentifiers = pgTable(
+  'user_identifiers',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: varchar('type', { length: 50 }).notNull(),
+    value: varchar('value', { length: 255 }).notNull(),
+    data: jsonb('data'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (t) => [uniqueIndex('type_value_idx').on(t.type, t.value)],
+)
+
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull(), // SHA-256 hex, never the raw token
+  expiresAt: timestamp('expires_at').notNull(),
+  invalidated: boolean('invalidated').notNull().default(false),
+  invalidatedAt: timestamp('invalidated_at'),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  mfaVerified: boolean('mfa_verified').notNull().default(false),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  refreshedAt: timestamp('refreshed_at').notNull().defaultNow(),
+  usedAt: timestamp('used_at').notNull().defaultNow(),
+  authenticatedAt: timestamp('authenticated_at').notNull().defaultNow(),
+  impersonatorId: uuid('impersonator_id').references(() => users.id, {
+    onDelete: 'cascade',
+  }),
+})
+
+export const otps = pgTable('otps', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  email: varchar('email', { length: 255 }).notNull(),
+  code: varchar('code', { length: 10 }).notNull(),
+  signature: varchar('signature', { length: 100 }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  used: boolean('used').notNull().default(false),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+})
+
+export const recoveryCodes = pgTable(
+  'recovery_codes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 hex
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (t) => [index('recovery_codes_user_id_idx').on(t.userId)],
+)
+
+export const usersRelations = relations(users, ({ many }) => ({
+  identifiers: many(userIdentifiers),
+  sessions: many(sessions),
+  recoveryCodes: many(recoveryCodes),
+}))
+
+export const userIdentifiersRelations = relations(
+  userIdentifiers,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [userIdentifiers.userId],
+      references: [users.id],
+    }),
+  }),
+)
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}))
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}))
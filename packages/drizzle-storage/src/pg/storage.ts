@@ -0,0 +1,321 @@
+import { eq, and, sql, count } from 'drizzle-orm'
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core'
+import type {
+  KenmonStorage,
+  KenmonSession,
+  KenmonIdentifier,
+  KenmonUserLockout,
+} from 'kenmon'
+import type {
+  KenmonEmailOTPStorage,
+  KenmonEmailOTP,
+} from '@kenmon/email-otp-authenticator'
+import { users, userIdentifiers, sessions, otps, recoveryCodes } from './schema'
+import { toKenmonSession, toKenmonIdentifier } from '../utils'
+
+// Any Postgres driver (postgres-js, node-postgres, Neon, PGlite...)
+export type KenmonDrizzlePgDatabase = PgDatabase<PgQueryResultHKT, any>
+
+export type KenmonDrizzlePgUser = typeof users.$inferSelect
+
+export class KenmonDrizzleStorage
+  implements KenmonStorage<KenmonDrizzlePgUser>
+{
+  constructor(private db: KenmonDrizzlePgDatabase) {}
+
+  // User operations
+  async createUser(
+    identifier: KenmonIdentifier,
+    data: any,
+  ): Promise<KenmonDrizzlePgUser> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values({}).returning()
+
+      await tx.insert(userIdentifiers).values({
+        userId: user.id,
+        type: identifier.type,
+        value: identifier.value,
+        data: identifier.data,
+      })
+
+      return user
+    })
+  }
+
+  async getUserById(id: string): Promise<KenmonDrizzlePgUser | null> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1)
+    return user ?? null
+  }
+
+  async getUserAuthInfoByIdentifier(
+    identifier: KenmonIdentifier,
+  ): Promise<{ userId: string; mfaEnabled: boolean } | null> {
+    const [result] = await this.db
+      .select({ userId: users.id, mfaEnabled: users.mfaEnabled })
+      .from(userIdentifiers)
+      .innerJoin(users, eq(userIdentifiers.userId, users.id))
+      .where(
+        and(
+          eq(userIdentifiers.type, identifier.type),
+          eq(userIdentifiers.value, identifier.value),
+        ),
+      )
+      .limit(1)
+
+    return result ?? null
+  }
+
+  async enableMfa(userId: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ mfaEnabled: true, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+  }
+
+  async disableMfa(userId: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ mfaEnabled: false, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+  }
+
+  // Identifier operations
+  async createUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    await this.db.insert(userIdentifiers).values({
+      userId,
+      type: identifier.type,
+      value: identifier.value,
+      data: identifier.data,
+    })
+  }
+
+  async getUserIdentifiers(userId: string): Promise<KenmonIdentifier[]> {
+    const identifiers = await this.db
+      .select()
+      .from(userIdentifiers)
+      .where(eq(userIdentifiers.userId, userId))
+      .orderBy(userIdentifiers.createdAt)
+
+    return identifiers.map(toKenmonIdentifier)
+  }
+
+  async deleteUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    await this.db
+      .delete(userIdentifiers)
+      .where(
+        and(
+          eq(userIdentifiers.userId, userId),
+          eq(userIdentifiers.type, identifier.type),
+          eq(userIdentifiers.value, identifier.value),
+        ),
+      )
+  }
+
+  // Session operations
+  async createSession(data: {
+    userId: string
+    tokenHash: string
+    expiresAt: Date
+    mfaEnabled: boolean
+    mfaVerified: boolean
+    ipAddress?: string
+    userAgent?: string
+    impersonatorId?: string
+  }): Promise<KenmonSession> {
+    const [session] = await this.db
+      .insert(sessions)
+      .values({
+        userId: data.userId,
+        tokenHash: data.tokenHash,
+        expiresAt: data.expiresAt,
+        mfaEnabled: data.mfaEnabled,
+        mfaVerified: data.mfaVerified,
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+        impersonatorId: data.impersonatorId,
+        invalidated: false,
+      })
+      .returning()
+
+    return toKenmonSession(session)
+  }
+
+  async getSessionById(sessionId: string): Promise<KenmonSession | null> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1)
+
+    return session ? toKenmonSession(session) : null
+  }
+
+  async getUserSessions(
+    userId: string,
+    options?: { includeInvalidated?: boolean },
+  ): Promise<KenmonSession[]> {
+    const userSessions = await this.db
+      .select()
+      .from(sessions)
+      .where(
+        options?.includeInvalidated
+          ? eq(sessions.userId, userId)
+          : and(eq(sessions.userId, userId), eq(sessions.invalidated, false)),
+      )
+
+    return userSessions.map(toKenmonSession)
+  }
+
+  async updateSession(
+    sessionId: string,
+    data: {
+      expiresAt?: Date
+      refreshedAt?: Date
+      usedAt?: Date
+      authenticatedAt?: Date
+      mfaVerified?: boolean
+      ipAddress?: string
+      userAgent?: string
+    },
+  ): Promise<void> {
+    await this.db.update(sessions).set(data).where(eq(sessions.id, sessionId))
+  }
+
+  async invalidateSession(sessionId: string): Promise<void> {
+    await this.db
+      .update(sessions)
+      .set({ invalidated: true, invalidatedAt: new Date() })
+      .where(eq(sessions.id, sessionId))
+  }
+
+  async invalidateAllUserSessions(userId: string): Promise<void> {
+    await this.db
+      .update(sessions)
+      .set({ invalidated: true, invalidatedAt: new Date() })
+      .where(eq(sessions.userId, userId))
+  }
+
+  // Lockout operations
+  async getUserLockout(userId: string): Promise<KenmonUserLockout> {
+    const [user] = await this.db
+      .select({
+        failedAttempts: users.failedAttempts,
+        lockedUntil: users.lockedUntil,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+
+    return {
+      failedAttempts: user?.failedAttempts ?? 0,
+      lockedUntil: user?.lockedUntil ?? undefined,
+    }
+  }
+
+  async incrementFailedAttempts(userId: string): Promise<number> {
+    const [user] = await this.db
+      .update(users)
+      .set({ failedAttempts: sql`${users.failedAttempts} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ failedAttempts: users.failedAttempts })
+
+    return user?.failedAttempts ?? 0
+  }
+
+  async lockUser(userId: string, lockedUntil: Date): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ lockedUntil, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+  }
+
+  async resetFailedAttempts(userId: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ failedAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId))
+  }
+
+  // Recovery code operations
+  async replaceRecoveryCodes(
+    userId: string,
+    codeHashes: string[],
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId))
+      if (codeHashes.length > 0) {
+        await tx
+          .insert(recoveryCodes)
+          .values(codeHashes.map((codeHash) => ({ userId, codeHash })))
+      }
+    })
+  }
+
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<boolean> {
+    const deleted = await this.db
+      .delete(recoveryCodes)
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+        ),
+      )
+      .returning({ id: recoveryCodes.id })
+
+    return deleted.length > 0
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(eq(recoveryCodes.userId, userId))
+
+    return result?.count ?? 0
+  }
+}
+
+export class KenmonDrizzleEmailOTPStorage implements KenmonEmailOTPStorage {
+  constructor(private db: KenmonDrizzlePgDatabase) {}
+
+  async createOTP(
+    email: string,
+    code: string,
+    expiresAt: Date,
+    signature: string,
+  ): Promise<KenmonEmailOTP> {
+    const [otp] = await this.db
+      .insert(otps)
+      .values({ email, code, signature, expiresAt, used: false })
+      .returning()
+
+    return otp
+  }
+
+  async getOTPById(id: string): Promise<KenmonEmailOTP | null> {
+    const [otp] = await this.db
+      .select()
+      .from(otps)
+      .where(eq(otps.id, id))
+      .limit(1)
+
+    return otp ?? null
+  }
+
+  async markOTPAsUsed(id: string): Promise<void> {
+    await this.db.update(otps).set({ used: true }).where(eq(otps.id, id))
+  }
+}
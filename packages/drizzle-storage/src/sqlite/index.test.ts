@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js'
+import { drizzle } from 'drizzle-orm/sql-js'
+import { KenmonAuthService, KenmonIdentifier } from 'kenmon'
+import {
+  testKenmonStorage,
+  testKenmonEmailOTPStorage,
+} from '@kenmon/storage-test-suite'
+import {
+  KenmonDrizzleStorage,
+  KenmonDrizzleEmailOTPStorage,
+  KenmonDrizzleSQLiteDatabase,
+} from './index'
+
+const schemaSQL = `
+PRAGMA foreign_keys = ON;
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,
+  mfa_enabled INTEGER NOT NULL DEFAULT 0,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE TABLE user_identifiers (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  data TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE UNIQUE INDEX type_value_idx ON user_identifiers (type, value);
+CREATE TABLE sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  invalidated INTEGER NOT NULL DEFAULT 0,
+  invalidated_at INTEGER,
+  mfa_enabled INTEGER NOT NULL DEFAULT 0,
+  mfa_verified INTEGER NOT NULL DEFAULT 0,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at INTEGER NOT NULL,
+  refreshed_at INTEGER NOT NULL,
+  used_at INTEGER NOT NULL,
+  authenticated_at INTEGER NOT NULL,
+  impersonator_id TEXT REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE TABLE recovery_codes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX recovery_codes_user_id_idx ON recovery_codes (user_id);
+CREATE TABLE otps (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  code TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+`
+
+const inFiveMinutes = () => new Date(Date.now() + 5 * 60 * 1000)
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+// Cookie adapter for running KenmonAuthService end to end
+class MemoryAdapter {
+  private cookies = new Map<string, string>()
+
+  async setCookie(name: string, value: string) {
+    this.cookies.set(name, value)
+  }
+
+  async getCookie(name: string) {
+    return this.cookies.get(name)
+  }
+
+  async deleteCookie(name: string) {
+    this.cookies.delete(name)
+  }
+}
+
+describe('@kenmon/drizzle-storage/sqlite', () => {
+  let SQL: SqlJsStatic
+  let client: Database
+  let db: KenmonDrizzleSQLiteDatabase
+  let storage: KenmonDrizzleStorage
+  let otpStorage: KenmonDrizzleEmailOTPStorage
+
+  beforeAll(async () => {
+    SQL = await initSqlJs()
+  })
+
+  beforeEach(() => {
+    client = new SQL.Database()
+    client.exec(schemaSQL)
+    db = drizzle(client)
+    storage = new KenmonDrizzleStorage(db)
+    otpStorage = new KenmonDrizzleEmailOTPStorage(db)
+  })
+
+  describe('KenmonDrizzleStorage', () => {
+    it('should create users and look them up by identifier', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+
+      expect(await storage.getUserById(user.id)).toEqual(user)
+      expect(
+        await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier),
+      ).toEqual({ userId: user.id, mfaEnabled: false })
+      expect(
+        await storage.getUserAuthInfoByIdentifier({
+          type: 'email-otp',
+          value: 'unknown@example.com',
+        }),
+      ).toBeNull()
+    })
+
+    it('should not leave a user behind when the identifier is taken', async () => {
+      await storage.createUser(defaultTestIdentifier, {})
+
+      await expect(
+        storage.createUser(defaultTestIdentifier, {}),
+      ).rejects.toThrow()
+
+      const [result] = client.exec('SELECT COUNT(*) FROM users')
+      expect(result.values[0][0]).toBe(1)
+    })
+
+    it('should round-trip identifier data', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const googleIdentifier = {
+        type: 'google-oauth',
+        value: '1234567890',
+        data: { email: 'test@example.com' },
+      }
+
+      await storage.createUserIdentifier(user.id, googleIdentifier)
+
+      expect(await storage.getUserIdentifiers(user.id)).toEqual([
+        defaultTestIdentifier,
+        googleIdentifier,
+      ])
+    })
+
+    it('should store sessions with millisecond precision', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const expiresAt = new Date('2030-01-01T00:00:00.123Z')
+
+      const session = await storage.createSession({
+        userId: user.id,
+        tokenHash: 'token-hash',
+        expiresAt,
+        mfaEnabled: false,
+        mfaVerified: false,
+        ipAddress: '127.0.0.1',
+      })
+
+      expect(session.expiresAt).toEqual(expiresAt)
+      expect(session.ipAddress).toBe('127.0.0.1')
+      expect(session.userAgent).toBeUndefined()
+      expect(await storage.getSessionById(session.id)).toEqual(session)
+    })
+
+    it('should count failed attempts', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+
+      expect(await storage.incrementFailedAttempts(user.id)).toBe(1)
+      expect(await storage.incrementFailedAttempts(user.id)).toBe(2)
+      const lockedUntil = inFiveMinutes()
+      await storage.lockUser(user.id, lockedUntil)
+      expect(await storage.getUserLockout(user.id)).toEqual({
+        failedAttempts: 2,
+        lockedUntil,
+      })
+
+      await storage.resetFailedAttempts(user.id)
+      expect(await storage.getUserLockout(user.id)).toEqual({
+        failedAttempts: 0,
+        lockedUntil: undefined,
+      })
+    })
+
+    it('should run the session lifecycle of KenmonAuthService', async () => {
+      const authService = new KenmonAuthService({
+        secret: 'test-secret',
+        storage,
+        adapter: new MemoryAdapter(),
+      })
+
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      expect((await authService.verifySession()).success).toBe(true)
+      expect((await authService.refreshSession()).success).toBe(true)
+      expect(
+        await authService.listSessions(signUpResult.data.userId),
+      ).toHaveLength(1)
+
+      await authService.signOut({ allSessions: true })
+      expect(await authService.listSessions(signUpResult.data.userId)).toEqual(
+        [],
+      )
+    })
+  })
+
+  describe('KenmonDrizzleEmailOTPStorage', () => {
+    it('should store and mark OTPs as used', async () => {
+      const otp = await otpStorage.createOTP(
+        'test@example.com',
+        '123456',
+        inFiveMinutes(),
+        'signature',
+      )
+
+      await otpStorage.markOTPAsUsed(otp.id)
+
+      expect(await otpStorage.getOTPById(otp.id)).toEqual({
+        ...otp,
+        used: true,
+      })
+      expect(await otpStorage.getOTPById('unknown')).toBeNull()
+    })
+  })
+})
+
+describe('@kenmon/drizzle-storage/sqlite conformance', () => {
+  const createDatabase = async (): Promise<KenmonDrizzleSQLiteDatabase> => {
+    const SQL = await initSqlJs()
+    const client = new SQL.Database()
+    client.exec(schemaSQL)
+    return drizzle(client)
+  }
+
+  testKenmonStorage({
+    createStorage: async () => new KenmonDrizzleStorage(await createDatabase()),
+  })
+
+  testKenmonEmailOTPStorage({
+    createStorage: async () =>
+      new KenmonDrizzleEmailOTPStorage(await createDatabase()),
+  })
+})
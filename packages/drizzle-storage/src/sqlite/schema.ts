@@ -0,0 +1,139 @@
+import crypto from 'crypto'
+import {
+  sqliteTable,
+  text,
+  integer,
+  uniqueIndex,
+  index,
+} from 'drizzle-orm/sqlite-core'
+import { relations } from 'drizzle-orm'
+
+const id = () =>
+  text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID())
+
+// Millisecond timestamps so sessions round-trip without losing precision
+const timestamp = (name: string) => integer(name, { mode: 'timestamp_ms' })
+
+const boolean = (name: string) => integer(name, { mode: 'boolean' })
+
+export const users = sqliteTable('users', {
+  id: id(),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+})
+
+export const userIdentifiers = sqliteTable(
+  'user_identifiers',
+  {
+    id: id(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: text('type').notNull(),
+    value: text('value').notNull(),
+    data: text('data', { mode: 'json' }),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [uniqueIndex('type_value_idx').on(t.type, t.value)],
+)
+
+export const sessions = sqliteTable('sessions', {
+  id: id(),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull(), // SHA-256 hex, never the raw token
+  expiresAt: timestamp('expires_at').notNull(),
+  invalidated: boolean('invalidated').notNull().default(false),
+  invalidatedAt: timestamp('invalidated_at'),
+  mfaEnabled: boolean('mfa_enabled').notNull().default(false),
+  mfaVerified: boolean('mfa_verified').notNull().default(false),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  refreshedAt: timestamp('refreshed_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  usedAt: timestamp('used_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  authenticatedAt: timestamp('authenticated_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+  impersonatorId: text('impersonator_id').references(() => users.id, {
+    onDelete: 'cascade',
+  }),
+})
+
+export const otps = sqliteTable('otps', {
+  id: id(),
+  email: text('email').notNull(),
+  code: text('code').notNull(),
+  signature: text('signature').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  used: boolean('used').notNull().default(false),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .$defaultFn(() => new Date()),
+})
+
+export const recoveryCodes = sqliteTable(
+  'recovery_codes',
+  {
+    id: id(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: text('code_hash').notNull(), // SHA-256 hex
+    createdAt: timestamp('created_at')
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index('recovery_codes_user_id_idx').on(t.userId)],
+)
+
+export const usersRelations = relations(users, ({ many }) => ({
+  identifiers: many(userIdentifiers),
+  sessions: many(sessions),
+  recoveryCodes: many(recoveryCodes),
+}))
+
+export const userIdentifiersRelations = relations(
+  userIdentifiers,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [userIdentifiers.userId],
+      references: [users.id],
+    }),
+  }),
+)
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}))
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}))
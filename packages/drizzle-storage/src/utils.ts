@@ -0,0 +1,56 @@
+import type { KenmonIdentifier, KenmonSession } from 'kenmon'
+
+// Row shapes shared by the Postgres, MySQL and SQLite schemas
+interface SessionRow {
+  id: string
+  userId: string
+  tokenHash: string
+  expiresAt: Date
+  createdAt: Date
+  refreshedAt: Date
+  usedAt: Date
+  authenticatedAt: Date
+  invalidated: boolean
+  invalidatedAt: Date | null
+  ipAddress: string | null
+  userAgent: string | null
+  mfaEnabled: boolean
+  mfaVerified: boolean
+  impersonatorId: string | null
+}
+
+interface IdentifierRow {
+  type: string
+  value: string
+  data: unknown
+}
+
+export function toKenmonSession(session: SessionRow): KenmonSession {
+  return {
+    id: session.id,
+    userId: session.userId,
+    tokenHash: session.tokenHash,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+    refreshedAt: session.refreshedAt,
+    usedAt: session.usedAt,
+    authenticatedAt: session.authenticatedAt,
+    invalidated: session.invalidated,
+    invalidatedAt: session.invalidatedAt ?? undefined,
+    ipAddress: session.ipAddress ?? undefined,
+    userAgent: session.userAgent ?? undefined,
+    mfaEnabled: session.mfaEnabled,
+    mfaVerified: session.mfaVerified,
+    impersonatorId: session.impersonatorId ?? undefined,
+  }
+}
+
+export function toKenmonIdentifier(
+  identifier: IdentifierRow,
+): KenmonIdentifier {
+  return {
+    type: identifier.type,
+    value: identifier.value,
+    data: identifier.data ?? undefined,
+  }
+}
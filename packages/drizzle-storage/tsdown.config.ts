@@ -0,0 +1,11 @@
+import { defineConfig } from 'tsdown'
+
+export default defineConfig({
+  entry: ['src/pg/index.ts', 'src/mysql/index.ts', 'src/sqlite/index.ts'],
+  format: ['esm', 'cjs'],
+  dts: true,
+  sourcemap: true,
+  clean: true,
+  unbundle: true,
+  outDir: 'dist',
+})
@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { KenmonEmailOTPAuthenticator, KenmonEmailOTPStorage } from './index'
-import { KenmonMailer } from 'kenmon'
+import {
+  KenmonMailer,
+  KenmonMemoryStorage,
+  KenmonRateLimiter,
+  KenmonRateLimitedError,
+} from 'kenmon'
 
 // Mock dependencies
 class MockMailer implements KenmonMailer {
@@ -100,4 +105,113 @@ describe('KenmonEmailOTPAuthenticator', () => {
 
     expect(result.success).toBe(false)
   })
+
+  it('should work with KenmonMemoryStorage', async () => {
+    const memoryStorage = new KenmonMemoryStorage()
+    const spy = vi.spyOn(mailer, 'sendEmail')
+    authenticator = new KenmonEmailOTPAuthenticator({
+      mailer,
+      otpStorage: memoryStorage,
+      emailFrom: 'noreply@example.com',
+    })
+
+    const sendResult = await authenticator.sendOTP('test@example.com')
+    if (!sendResult.success) throw new Error('Failed to send OTP')
+    const otp = await memoryStorage.getOTPById(sendResult.data.otpId)
+
+    const result = await authenticator.verifyOTP({
+      email: 'test@example.com',
+      otpId: sendResult.data.otpId,
+      code: otp!.code,
+    })
+
+    expect(spy).toHaveBeenCalled()
+    expect(result.success).toBe(true)
+  })
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      authenticator = new KenmonEmailOTPAuthenticator({
+        mailer,
+        otpStorage: storage,
+        emailFrom: 'noreply@example.com',
+        rateLimit: {
+          send: new KenmonRateLimiter({ limit: 1, window: 60 }),
+          verify: new KenmonRateLimiter({ limit: 2, window: 60 }),
+        },
+      })
+    })
+
+    it('should limit sending OTPs to the same email', async () => {
+      const spy = vi.spyOn(mailer, 'sendEmail')
+      await authenticator.sendOTP('test@example.com')
+
+      const result = await authenticator.sendOTP('test@example.com')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should limit sending OTPs to case variants of the same email', async () => {
+      await authenticator.sendOTP('test@example.com')
+
+      const result = await authenticator.sendOTP('TEST@Example.com')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+    })
+
+    it('should limit sending OTPs from the same IP address', async () => {
+      await authenticator.sendOTP('a@example.com', { ipAddress: '10.0.0.1' })
+
+      const result = await authenticator.sendOTP('b@example.com', { ipAddress: '10.0.0.1' })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should limit verification attempts even with the right code', async () => {
+      const sendResult = await authenticator.sendOTP('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send OTP')
+      const { otpId } = sendResult.data
+      const otp = await storage.getOTPById(otpId)
+
+      await authenticator.verifyOTP({ email: 'test@example.com', otpId, code: 'wrong-1' })
+      await authenticator.verifyOTP({ email: 'test@example.com', otpId, code: 'wrong-2' })
+      const result = await authenticator.verifyOTP({ email: 'test@example.com', otpId, code: otp.code })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(otp.used).toBe(false)
+    })
+
+    it('should count verification attempts across case variants of the email', async () => {
+      authenticator = new KenmonEmailOTPAuthenticator({
+        mailer,
+        otpStorage: storage,
+        emailFrom: 'noreply@example.com',
+        rateLimit: {
+          verify: new KenmonRateLimiter({ limit: 2, window: 60 }),
+        },
+      })
+      const firstResult = await authenticator.sendOTP('test@example.com')
+      const secondResult = await authenticator.sendOTP('test@example.com')
+      if (!firstResult.success || !secondResult.success) throw new Error('Failed to send OTP')
+
+      await authenticator.verifyOTP({ email: 'test@example.com', otpId: firstResult.data.otpId, code: 'wrong-1' })
+      await authenticator.verifyOTP({ email: 'Test@example.com', otpId: firstResult.data.otpId, code: 'wrong-2' })
+      const result = await authenticator.verifyOTP({ email: 'TEST@EXAMPLE.COM', otpId: secondResult.data.otpId, code: 'wrong-3' })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+    })
+  })
 })
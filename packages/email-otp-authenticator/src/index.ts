@@ -7,8 +7,9 @@ import {
   KenmonMailer,
   KenmonError,
   KenmonInvalidPayloadError,
+  KenmonRateLimiter,
+  generateSignature,
 } from 'kenmon'
-import { generateSignature } from './signature'
 
 // OTP-specific error with reason discriminator
 export type KenmonEmailOTPErrorReason =
@@ -46,6 +47,12 @@ export class KenmonEmailOTPError extends KenmonError {
   }
 }
 
+// Rate limit keys ignore case and surrounding whitespace, so variants of an
+// address share one budget
+function getRateLimitEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
 // Zod schemas for payload validation
 const emailOTPPrepareDataSchema = z.object({
   email: z.email('Invalid email address'),
@@ -79,6 +86,10 @@ export interface KenmonEmailOTPProviderConfig {
   emailSubject?: (code: string, signature: string, otpTtl: number) => string
   emailTextContent?: (code: string, signature: string, otpTtl: number) => string
   emailHtmlContent?: (code: string, signature: string, otpTtl: number) => string
+  rateLimit?: {
+    send?: KenmonRateLimiter // keyed by email and IP address
+    verify?: KenmonRateLimiter // keyed by email, OTP ID and IP address
+  }
 }
 
 export class KenmonEmailOTPAuthenticator {
@@ -104,6 +115,10 @@ export class KenmonEmailOTPAuthenticator {
     signature: string,
     otpTtl: number,
   ) => string
+  private rateLimit: {
+    send?: KenmonRateLimiter
+    verify?: KenmonRateLimiter
+  }
 
   constructor(config: KenmonEmailOTPProviderConfig) {
     this.mailer = config.mailer
@@ -111,6 +126,7 @@ export class KenmonEmailOTPAuthenticator {
     this.otpTtl = config.otpTtl ?? 300 // 5 minutes default
     this.otpLength = config.otpLength ?? 6
     this.emailFrom = config.emailFrom
+    this.rateLimit = config.rateLimit ?? {}
 
     // Set default email subject
     this.emailSubject =
@@ -149,6 +165,7 @@ This code will expire in ${Math.floor(otpTtl / 60)} minutes.`
 
   async sendOTP(
     email: string,
+    options?: { ipAddress?: string },
   ): Promise<KenmonReturnType<{ otpId: string; signature: string }>> {
     // Validate email
     const result = emailOTPPrepareDataSchema.safeParse({ email })
@@ -159,6 +176,15 @@ This code will expire in ${Math.floor(otpTtl / 60)} minutes.`
       }
     }
 
+    const rateLimitKeys = [`send-otp:email:${getRateLimitEmail(email)}`]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`send-otp:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.send?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
     try {
       // Generate OTP code
       const code = this.generateOTPCode()
@@ -200,11 +226,14 @@ This code will expire in ${Math.floor(otpTtl / 60)} minutes.`
     }
   }
 
-  async verifyOTP(payload: {
-    email: string
-    otpId: string
-    code: string
-  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+  async verifyOTP(
+    payload: {
+      email: string
+      otpId: string
+      code: string
+    },
+    options?: { ipAddress?: string },
+  ): Promise<KenmonReturnType<KenmonIdentifier>> {
     // Validate payload with Zod
     const result = emailOTPAuthenticateDataSchema.safeParse(payload)
     if (!result.success) {
@@ -216,6 +245,18 @@ This code will expire in ${Math.floor(otpTtl / 60)} minutes.`
 
     const { email, otpId, code } = result.data
 
+    const rateLimitKeys = [
+      `verify-otp:email:${getRateLimitEmail(email)}`,
+      `verify-otp:otp:${otpId}`,
+    ]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`verify-otp:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.verify?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
     try {
       // Fetch OTP from storage
       const otp = await this.otpStorage.getOTPById(otpId)
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService, KenmonMemoryStorage } from 'kenmon'
+import { KenmonFetchAdapter, withKenmonFetch } from './index'
+
+describe('KenmonFetchAdapter', () => {
+  let adapter: KenmonFetchAdapter
+
+  beforeEach(() => {
+    adapter = new KenmonFetchAdapter()
+  })
+
+  it('should read cookies and headers from the request', async () => {
+    const handler = withKenmonFetch(async () => {
+      return Response.json({
+        session: await adapter.getCookie('session'),
+        missing: await adapter.getCookie('missing'),
+        authorization: await adapter.getHeader('Authorization'),
+      })
+    })
+
+    const response = await handler(
+      new Request('https://example.com', {
+        headers: {
+          Cookie: 'theme=dark; session=abc.def=; other=1',
+          Authorization: 'Bearer token',
+        },
+      }),
+    )
+
+    expect(await response.json()).toEqual({
+      session: 'abc.def=',
+      authorization: 'Bearer token',
+    })
+  })
+
+  it('should append Set-Cookie headers to the response', async () => {
+    const handler = withKenmonFetch(async () => {
+      await adapter.setCookie('session', 'value', {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'lax',
+        maxAge: 60,
+        path: '/',
+      })
+      await adapter.deleteCookie('old')
+      return new Response('ok', {
+        status: 201,
+        headers: { 'Set-Cookie': 'theme=dark' },
+      })
+    })
+
+    const response = await handler(new Request('https://example.com'))
+
+    expect(response.status).toBe(201)
+    expect(await response.text()).toBe('ok')
+    expect(response.headers.getSetCookie()).toEqual([
+      'theme=dark',
+      'session=value; HttpOnly; Secure; SameSite=lax; Max-Age=60; Path=/',
+      'old=; Max-Age=0; Path=/',
+    ])
+  })
+
+  it('should append cookies to responses with immutable headers', async () => {
+    const handler = withKenmonFetch(async () => {
+      await adapter.setCookie('session', 'value')
+      return Response.redirect('https://example.com/dashboard', 303)
+    })
+
+    const response = await handler(new Request('https://example.com'))
+
+    expect(response.status).toBe(303)
+    expect(response.headers.get('Location')).toBe(
+      'https://example.com/dashboard',
+    )
+    expect(response.headers.getSetCookie()).toEqual(['session=value'])
+  })
+
+  it('should pass extra handler arguments through', async () => {
+    const handler = withKenmonFetch(
+      async (request: Request, env: { name: string }) => new Response(env.name),
+    )
+
+    const response = await handler(new Request('https://example.com'), {
+      name: 'env',
+    })
+
+    expect(await response.text()).toBe('env')
+  })
+
+  it('should throw outside of withKenmonFetch', async () => {
+    await expect(adapter.getCookie('session')).rejects.toThrow(
+      'Kenmon Fetch context not found',
+    )
+  })
+
+  it('should keep sessions across requests with KenmonAuthService', async () => {
+    const auth = new KenmonAuthService({
+      secret: 'test-secret',
+      storage: new KenmonMemoryStorage(),
+      adapter,
+    })
+    const handler = withKenmonFetch(async (request) => {
+      if (new URL(request.url).pathname === '/sign-up') {
+        await auth.signUp({ type: 'email', value: 'test@example.com' }, {})
+        return new Response('signed up')
+      }
+      const result = await auth.verifySession()
+      return new Response(null, { status: result.success ? 200 : 401 })
+    })
+
+    const signUpResponse = await handler(
+      new Request('https://example.com/sign-up', { method: 'POST' }),
+    )
+    const [sessionCookie] = signUpResponse.headers.getSetCookie()
+    const cookie = sessionCookie.split(';')[0]
+
+    const authorized = await handler(
+      new Request('https://example.com/me', { headers: { Cookie: cookie } }),
+    )
+    const unauthorized = await handler(new Request('https://example.com/me'))
+
+    expect(authorized.status).toBe(200)
+    expect(unauthorized.status).toBe(401)
+  })
+})
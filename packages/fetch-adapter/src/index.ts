@@ -0,0 +1,133 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { KenmonAdapter, CookieOptions } from 'kenmon'
+
+interface KenmonFetchContext {
+  request: Request
+  responseHeaders: Headers
+}
+
+const KENMON_FETCH_CONTEXT = new AsyncLocalStorage<KenmonFetchContext>()
+
+/**
+ * Gets the current Kenmon Fetch context from AsyncLocalStorage.
+ * Internal helper used by the adapter. Not exported.
+ */
+function getKenmonFetchContext(): KenmonFetchContext {
+  const context = KENMON_FETCH_CONTEXT.getStore()
+  if (!context) {
+    throw new Error(
+      'Kenmon Fetch context not found. Make sure your fetch handler is wrapped with withKenmonFetch.',
+    )
+  }
+  return context
+}
+
+/**
+ * Wraps a `(request) => Response` handler so KenmonFetchAdapter can read the
+ * request and append Set-Cookie headers to the response.
+ * Extra arguments (e.g. Bun's server or Cloudflare's env and ctx) are passed through.
+ *
+ * @example
+ * ```typescript
+ * import { withKenmonFetch } from '@kenmon/fetch-adapter'
+ *
+ * Bun.serve({
+ *   fetch: withKenmonFetch(async (request) => {
+ *     const result = await auth.verifySession()
+ *     return new Response(result.success ? 'Hello' : 'Unauthorized')
+ *   }),
+ * })
+ * ```
+ */
+export function withKenmonFetch<A extends unknown[]>(
+  handler: (request: Request, ...args: A) => Response | Promise<Response>,
+): (request: Request, ...args: A) => Promise<Response> {
+  return async (request, ...args) => {
+    const responseHeaders = new Headers()
+
+    const response = await KENMON_FETCH_CONTEXT.run(
+      { request, responseHeaders },
+      async () => {
+        return await handler(request, ...args)
+      },
+    )
+
+    const cookies = responseHeaders.getSetCookie()
+    if (cookies.length === 0) return response
+
+    // Headers of Response.redirect() and fetch() responses are immutable,
+    // so copy the response before appending cookies
+    const headers = new Headers(response.headers)
+    for (const cookie of cookies) {
+      headers.append('Set-Cookie', cookie)
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    })
+  }
+}
+
+/**
+ * Fetch API adapter for Kenmon authentication.
+ * Works with any runtime built on the standard Request and Response
+ * (Bun, Deno, Cloudflare Workers with `nodejs_compat`, Hono, etc.).
+ *
+ * @example
+ * ```typescript
+ * import { KenmonAuthService } from 'kenmon'
+ * import { KenmonFetchAdapter } from '@kenmon/fetch-adapter'
+ *
+ * export const auth = new KenmonAuthService({
+ *   secret: process.env.SESSION_SECRET,
+ *   adapter: new KenmonFetchAdapter(),
+ *   // ... other options
+ * })
+ * ```
+ */
+export class KenmonFetchAdapter implements KenmonAdapter {
+  async setCookie(
+    name: string,
+    value: string,
+    options?: CookieOptions,
+  ): Promise<void> {
+    const { responseHeaders } = getKenmonFetchContext()
+
+    const cookieParts = [`${name}=${value}`]
+
+    if (options?.httpOnly) cookieParts.push('HttpOnly')
+    if (options?.secure) cookieParts.push('Secure')
+    if (options?.sameSite) cookieParts.push(`SameSite=${options.sameSite}`)
+    if (options?.maxAge !== undefined)
+      cookieParts.push(`Max-Age=${options.maxAge}`)
+    if (options?.path) cookieParts.push(`Path=${options.path}`)
+
+    responseHeaders.append('Set-Cookie', cookieParts.join('; '))
+  }
+
+  async getCookie(name: string): Promise<string | undefined> {
+    const { request } = getKenmonFetchContext()
+
+    const cookieHeader = request.headers.get('Cookie')
+    if (!cookieHeader) return undefined
+
+    const cookies = cookieHeader.split(';').map((c) => c.trim())
+    const cookie = cookies.find((c) => c.startsWith(`${name}=`))
+
+    return cookie?.slice(name.length + 1)
+  }
+
+  async deleteCookie(name: string): Promise<void> {
+    const { responseHeaders } = getKenmonFetchContext()
+
+    responseHeaders.append('Set-Cookie', `${name}=; Max-Age=0; Path=/`)
+  }
+
+  async getHeader(name: string): Promise<string | undefined> {
+    const { request } = getKenmonFetchContext()
+
+    return request.headers.get(name) ?? undefined
+  }
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
+import type { CookieOptions, KenmonAdapter } from 'kenmon'
+import {
+  KenmonGitHubOAuthAuthenticator,
+  KenmonGitHubOAuthError,
+  type GitHubEmail,
+  type GitHubUser,
+} from './index'
+
+class TestAdapter implements KenmonAdapter {
+  cookies = new Map<string, { value: string; options?: CookieOptions }>()
+
+  async setCookie(name: string, value: string, options?: CookieOptions) {
+    this.cookies.set(name, { value, options })
+  }
+
+  async getCookie(name: string) {
+    return this.cookies.get(name)?.value
+  }
+
+  async deleteCookie(name: string) {
+    this.cookies.delete(name)
+  }
+}
+
+// In-memory stand-in for the GitHub OAuth and REST endpoints
+class TestGitHub {
+  user: GitHubUser = {
+    id: 1234,
+    login: 'octocat',
+    name: 'The Octocat',
+    email: null,
+    avatar_url: 'https://avatars.githubusercontent.com/u/1234',
+    html_url: 'https://github.com/octocat',
+  }
+  emails: GitHubEmail[] = [
+    {
+      email: 'octocat@example.com',
+      primary: true,
+      verified: true,
+      visibility: 'private',
+    },
+  ]
+  tokenRequests: URLSearchParams[] = []
+  apiAvailable = true
+
+  fetch: typeof fetch = async (input, init) => {
+    const url = String(input)
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+    if (url === 'https://github.com/login/oauth/access_token') {
+      const body = new URLSearchParams(String(init?.body))
+      this.tokenRequests.push(body)
+      // GitHub answers OAuth errors with a 200 status
+      if (body.get('code') !== 'valid-code') {
+        return json({ error: 'bad_verification_code' })
+      }
+      return json({ access_token: 'access-token', token_type: 'bearer' })
+    }
+
+    const headers = new Headers(init?.headers)
+    if (
+      !this.apiAvailable ||
+      headers.get('Authorization') !== 'Bearer access-token'
+    ) {
+      return json({ message: 'Bad credentials' }, 401)
+    }
+    if (url === 'https://api.github.com/user') {
+      return json(this.user)
+    }
+    if (url === 'https://api.github.com/user/emails') {
+      return json(this.emails)
+    }
+    return json({ message: 'Not Found' }, 404)
+  }
+}
+
+describe('KenmonGitHubOAuthAuthenticator', () => {
+  let adapter: TestAdapter
+  let github: TestGitHub
+  let authenticator: KenmonGitHubOAuthAuthenticator
+
+  const authorize = async (intent: 'sign-in' | 'sign-up' | 'link') => {
+    const authUrl = new URL(await authenticator.getAuthUrl(intent))
+    return { authUrl, state: authUrl.searchParams.get('state')! }
+  }
+
+  const expectGitHubOAuthError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonGitHubOAuthError)
+    expect((result.error as KenmonGitHubOAuthError).reason).toBe(reason)
+  }
+
+  beforeEach(() => {
+    adapter = new TestAdapter()
+    github = new TestGitHub()
+    authenticator = new KenmonGitHubOAuthAuthenticator({
+      clientId: 'test-client',
+      clientSecret: 'test-client-secret',
+      redirectUri: 'http://localhost:3000/auth/callback/github',
+      secret: 'state-secret',
+      adapter,
+      fetch: github.fetch,
+    })
+  })
+
+  describe('getAuthUrl()', () => {
+    it('should build the authorization URL and set the verifier cookie', async () => {
+      const { authUrl } = await authorize('sign-in')
+
+      const cookie = adapter.cookies.get('kenmon-github-oauth')
+      expect(cookie?.options).toMatchObject({
+        httpOnly: true,
+        sameSite: 'lax',
+        maxAge: 600,
+      })
+      expect(authUrl.origin + authUrl.pathname).toBe(
+        'https://github.com/login/oauth/authorize',
+      )
+      expect(Object.fromEntries(authUrl.searchParams)).toMatchObject({
+        client_id: 'test-client',
+        redirect_uri: 'http://localhost:3000/auth/callback/github',
+        scope: 'read:user user:email',
+        code_challenge_method: 'S256',
+        code_challenge: createHash('sha256')
+          .update(cookie!.value)
+          .digest('base64url'),
+      })
+    })
+  })
+
+  describe('verifyCallback()', () => {
+    it('should return the GitHub identifier with the primary verified email', async () => {
+      const { state } = await authorize('sign-up')
+      const codeVerifier = adapter.cookies.get('kenmon-github-oauth')!.value
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.intent).toBe('sign-up')
+        expect(result.data.identifier).toEqual({
+          type: 'github-oauth',
+          value: '1234',
+          data: {
+            githubId: '1234',
+            login: 'octocat',
+            email: 'octocat@example.com',
+            name: 'The Octocat',
+            avatarUrl: 'https://avatars.githubusercontent.com/u/1234',
+            profileUrl: 'https://github.com/octocat',
+          },
+        })
+      }
+      expect(github.tokenRequests[0].get('code_verifier')).toBe(codeVerifier)
+      expect(adapter.cookies.has('kenmon-github-oauth')).toBe(false)
+    })
+
+    it('should not return an unverified primary email', async () => {
+      github.emails = [
+        {
+          email: 'unverified@example.com',
+          primary: true,
+          verified: false,
+          visibility: 'private',
+        },
+        {
+          email: 'secondary@example.com',
+          primary: false,
+          verified: true,
+          visibility: null,
+        },
+      ]
+      const { state } = await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.identifier.data.email).toBeNull()
+      }
+    })
+
+    it('should reject callbacks in a browser which did not start the flow', async () => {
+      const { state } = await authorize('sign-in')
+      adapter.cookies.clear()
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGitHubOAuthError(result, 'invalid-state')
+      expect(github.tokenRequests).toHaveLength(0)
+    })
+
+    it('should reject invalid state tokens', async () => {
+      await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('valid-code', 'invalid')
+
+      expectGitHubOAuthError(result, 'invalid-state')
+    })
+
+    it('should reject invalid authorization codes', async () => {
+      const { state } = await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('invalid-code', state)
+
+      expectGitHubOAuthError(result, 'invalid-code')
+    })
+
+    it('should fail when the profile cannot be fetched', async () => {
+      github.apiAvailable = false
+      const { state } = await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGitHubOAuthError(result, 'profile-fetch-failed')
+    })
+  })
+})
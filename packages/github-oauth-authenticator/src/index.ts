@@ -0,0 +1,274 @@
+import jwt from 'jsonwebtoken'
+import { createHash, randomBytes } from 'crypto'
+import type { KenmonAdapter, KenmonReturnType } from 'kenmon'
+import { KenmonError } from 'kenmon'
+import type {
+  GitHubEmail,
+  GitHubUser,
+  KenmonGitHubOAuthAuthenticatorConfig,
+  KenmonGitHubOAuthData,
+  KenmonGitHubOAuthErrorReason,
+  KenmonGitHubOAuthIdentifier,
+  KenmonGitHubOAuthIntent,
+  StatePayload,
+} from './types'
+
+export * from './types'
+
+const authorizeUrl = 'https://github.com/login/oauth/authorize'
+const tokenUrl = 'https://github.com/login/oauth/access_token'
+const apiUrl = 'https://api.github.com'
+const defaultCookieName = 'kenmon-github-oauth'
+const stateTtl = 600 // 10 minutes
+
+export class KenmonGitHubOAuthError extends KenmonError {
+  readonly reason: KenmonGitHubOAuthErrorReason
+
+  constructor(reason: KenmonGitHubOAuthErrorReason) {
+    const messages: Record<KenmonGitHubOAuthErrorReason, string> = {
+      'invalid-state': 'Invalid or expired state token',
+      'invalid-code': 'Invalid or expired authorization code',
+      'token-exchange-failed': 'Failed to exchange code for tokens',
+      'profile-fetch-failed': 'Failed to fetch user profile from GitHub',
+    }
+
+    super(messages[reason])
+    this.name = 'KenmonGitHubOAuthError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonGitHubOAuthError.prototype)
+  }
+}
+
+export class KenmonGitHubOAuthAuthenticator {
+  public readonly type = 'github-oauth'
+  private readonly config: Required<
+    Omit<KenmonGitHubOAuthAuthenticatorConfig, 'adapter' | 'secure'>
+  > &
+    Pick<KenmonGitHubOAuthAuthenticatorConfig, 'secure'>
+  private readonly adapter: KenmonAdapter
+
+  constructor(config: KenmonGitHubOAuthAuthenticatorConfig) {
+    const { adapter, ...rest } = config
+    this.config = {
+      ...rest,
+      scopes: config.scopes ?? ['read:user', 'user:email'],
+      cookieName: config.cookieName ?? defaultCookieName,
+      fetch: config.fetch ?? ((input, init) => fetch(input, init)),
+    }
+    this.adapter = adapter
+  }
+
+  /**
+   * Generate GitHub OAuth authorization URL with JWT-signed state, and set
+   * the PKCE code verifier cookie which binds the flow to this browser
+   * @param intent - 'sign-in', 'sign-up' or 'link' (attach GitHub to a signed-in user)
+   * @returns Authorization URL string
+   */
+  async getAuthUrl(intent: KenmonGitHubOAuthIntent): Promise<string> {
+    const codeVerifier = randomBytes(32).toString('base64url')
+    const statePayload = this.createStatePayload(intent, codeVerifier)
+
+    await this.adapter.setCookie(this.config.cookieName, codeVerifier, {
+      httpOnly: true,
+      secure: this.config.secure ?? process.env.NODE_ENV === 'production',
+      // GitHub redirects back with a top-level GET, which `strict` would drop
+      sameSite: 'lax',
+      maxAge: stateTtl,
+      path: '/',
+    })
+
+    const authUrl = new URL(authorizeUrl)
+    authUrl.searchParams.set('client_id', this.config.clientId)
+    authUrl.searchParams.set('redirect_uri', this.config.redirectUri)
+    authUrl.searchParams.set('scope', this.config.scopes.join(' '))
+    authUrl.searchParams.set('state', this.signStateToken(statePayload))
+    authUrl.searchParams.set('code_challenge', statePayload.codeChallenge)
+    authUrl.searchParams.set('code_challenge_method', 'S256')
+
+    return authUrl.href
+  }
+
+  /**
+   * Verify OAuth callback and exchange code for user profile. Must run in the
+   * browser which called `getAuthUrl()`, as the state is checked against its
+   * code verifier cookie
+   * @param code - OAuth authorization code from callback
+   * @param state - JWT state token from callback
+   * @returns Object with intent and KenmonGitHubOAuthIdentifier
+   */
+  async verifyCallback(
+    code: string,
+    state: string,
+  ): Promise<
+    KenmonReturnType<{
+      intent: KenmonGitHubOAuthIntent
+      identifier: KenmonGitHubOAuthIdentifier
+    }>
+  > {
+    // The code verifier is single use, drop it whatever the outcome
+    const codeVerifier = await this.adapter.getCookie(this.config.cookieName)
+    if (codeVerifier) {
+      await this.adapter.deleteCookie(this.config.cookieName)
+    }
+
+    // Verify state token, and that this browser started the flow so an
+    // attacker can't sign the victim in with their own callback URL
+    const statePayload = this.verifyStateToken(state)
+    if (
+      !statePayload ||
+      !codeVerifier ||
+      this.createCodeChallenge(codeVerifier) !== statePayload.codeChallenge
+    ) {
+      return {
+        success: false,
+        error: new KenmonGitHubOAuthError('invalid-state'),
+      }
+    }
+
+    // Exchange code for an access token
+    const tokenResult = await this.exchangeCode(code, codeVerifier)
+    if (!tokenResult.success) {
+      return tokenResult
+    }
+
+    try {
+      const [user, emails] = await Promise.all([
+        this.fetchApi<GitHubUser>('/user', tokenResult.data),
+        this.fetchApi<GitHubEmail[]>('/user/emails', tokenResult.data),
+      ])
+
+      // Only trust the primary email once GitHub has verified it
+      const primaryEmail = emails.find((email) => email.primary)
+
+      // Build KenmonIdentifier with user data
+      const identifier: KenmonGitHubOAuthIdentifier = {
+        type: 'github-oauth',
+        value: String(user.id), // GitHub user ID, stable across renames
+        data: {
+          githubId: String(user.id),
+          login: user.login,
+          email: primaryEmail?.verified ? primaryEmail.email : null,
+          name: user.name,
+          avatarUrl: user.avatar_url,
+          profileUrl: user.html_url,
+        } satisfies KenmonGitHubOAuthData,
+      }
+
+      return {
+        success: true,
+        data: {
+          intent: statePayload.intent,
+          identifier,
+        },
+      }
+    } catch {
+      return {
+        success: false,
+        error: new KenmonGitHubOAuthError('profile-fetch-failed'),
+      }
+    }
+  }
+
+  private async exchangeCode(
+    code: string,
+    codeVerifier: string,
+  ): Promise<KenmonReturnType<string>> {
+    try {
+      const response = await this.config.fetch(tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code,
+          redirect_uri: this.config.redirectUri,
+          code_verifier: codeVerifier,
+        }),
+      })
+      // GitHub reports OAuth errors with a 200 status and an `error` field
+      const tokens = (await response.json()) as {
+        access_token?: string
+        error?: string
+      }
+
+      if (tokens.error === 'bad_verification_code') {
+        return {
+          success: false,
+          error: new KenmonGitHubOAuthError('invalid-code'),
+        }
+      }
+      if (!response.ok || !tokens.access_token) {
+        return {
+          success: false,
+          error: new KenmonGitHubOAuthError('token-exchange-failed'),
+        }
+      }
+
+      return { success: true, data: tokens.access_token }
+    } catch {
+      return {
+        success: false,
+        error: new KenmonGitHubOAuthError('token-exchange-failed'),
+      }
+    }
+  }
+
+  private async fetchApi<T>(path: string, accessToken: string): Promise<T> {
+    const response = await this.config.fetch(`${apiUrl}${path}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'kenmon',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+    if (!response.ok) {
+      throw new Error(
+        `GitHub API ${path} failed with status ${response.status}`,
+      )
+    }
+
+    return (await response.json()) as T
+  }
+
+  private createStatePayload(
+    intent: KenmonGitHubOAuthIntent,
+    codeVerifier: string,
+  ): StatePayload {
+    return {
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + stateTtl,
+      intent,
+      codeChallenge: this.createCodeChallenge(codeVerifier),
+    }
+  }
+
+  /**
+   * PKCE S256 code challenge
+   */
+  private createCodeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url')
+  }
+
+  /**
+   * Generate a JWT state token
+   */
+  private signStateToken(payload: StatePayload): string {
+    return jwt.sign(payload, this.config.secret)
+  }
+
+  /**
+   * Verify and decode a JWT state token
+   */
+  private verifyStateToken(token: string): StatePayload | null {
+    try {
+      const payload = jwt.verify(token, this.config.secret) as StatePayload
+      return payload
+    } catch (error) {
+      return null
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type { KenmonAdapter, KenmonIdentifier } from 'kenmon'
+
+export interface KenmonGitHubOAuthAuthenticatorConfig {
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+  secret: string // For signing JWT state tokens
+  adapter: KenmonAdapter // Sets the cookie binding the flow to the browser which started it
+  scopes?: string[] // Default: ['read:user', 'user:email']
+  cookieName?: string // Default: 'kenmon-github-oauth'
+  secure?: boolean // Default: NODE_ENV === 'production'
+  fetch?: typeof fetch // HTTP client for GitHub requests, default: global fetch
+}
+
+// Subset of GET /user
+export interface GitHubUser {
+  id: number // GitHub user ID (stable, unique identifier)
+  login: string // Username, can be changed by the user
+  name: string | null
+  email: string | null // Public profile email, not necessarily verified
+  avatar_url: string
+  html_url: string
+}
+
+// Item of GET /user/emails, requires the `user:email` scope
+export interface GitHubEmail {
+  email: string
+  primary: boolean
+  verified: boolean
+  visibility: 'public' | 'private' | null
+}
+
+export interface KenmonGitHubOAuthData {
+  githubId: string
+  login: string
+  email: string | null // Primary email, null if it isn't verified
+  name: string | null
+  avatarUrl: string
+  profileUrl: string
+}
+
+/**
+ * GitHub OAuth identifier with typed data
+ * Extends KenmonIdentifier with GitHub-specific user profile data
+ */
+export interface KenmonGitHubOAuthIdentifier extends KenmonIdentifier {
+  type: 'github-oauth'
+  value: string // GitHub user ID
+  data: KenmonGitHubOAuthData
+}
+
+export type KenmonGitHubOAuthIntent = 'sign-in' | 'sign-up' | 'link'
+
+export interface StatePayload {
+  iat: number // Issued at timestamp
+  exp: number // Expires timestamp
+  intent: KenmonGitHubOAuthIntent // User intent
+  codeChallenge: string // PKCE S256 challenge of the code verifier in the cookie
+}
+
+export type KenmonGitHubOAuthErrorReason =
+  | 'invalid-state'
+  | 'invalid-code'
+  | 'token-exchange-failed'
+  | 'profile-fetch-failed'
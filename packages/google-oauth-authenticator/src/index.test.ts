@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { google } from 'googleapis'
+import { createHash } from 'crypto'
+import type { CookieOptions, KenmonAdapter } from 'kenmon'
+import {
+  KenmonGoogleOAuthAuthenticator,
+  KenmonGoogleOAuthError,
+  type GoogleUserInfo,
+} from './index'
+
+class TestAdapter implements KenmonAdapter {
+  cookies = new Map<string, { value: string; options?: CookieOptions }>()
+
+  async setCookie(name: string, value: string, options?: CookieOptions) {
+    this.cookies.set(name, { value, options })
+  }
+
+  async getCookie(name: string) {
+    return this.cookies.get(name)?.value
+  }
+
+  async deleteCookie(name: string) {
+    this.cookies.delete(name)
+  }
+}
+
+describe('KenmonGoogleOAuthAuthenticator', () => {
+  let adapter: TestAdapter
+  let authenticator: KenmonGoogleOAuthAuthenticator
+  let getToken: ReturnType<typeof vi.fn>
+  // Claims of the ID token Google returns for the next code
+  let claims: Partial<GoogleUserInfo>
+
+  const authorize = async (intent: 'sign-in' | 'sign-up' | 'link') => {
+    const authUrl = new URL(await authenticator.getAuthUrl(intent))
+    claims = { sub: 'google-123', nonce: authUrl.searchParams.get('nonce')! }
+    return { authUrl, state: authUrl.searchParams.get('state')! }
+  }
+
+  const expectGoogleOAuthError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonGoogleOAuthError)
+    expect((result.error as KenmonGoogleOAuthError).reason).toBe(reason)
+  }
+
+  beforeEach(() => {
+    adapter = new TestAdapter()
+    authenticator = new KenmonGoogleOAuthAuthenticator({
+      clientId: 'test-client',
+      clientSecret: 'test-client-secret',
+      redirectUri: 'http://localhost:3000/auth/callback/google',
+      secret: 'state-secret',
+      adapter,
+    })
+
+    getToken = vi.fn(async () => ({ tokens: { id_token: 'id-token' } }))
+    vi.spyOn(google.auth.OAuth2.prototype, 'getToken').mockImplementation(
+      getToken as any,
+    )
+    vi.spyOn(google.auth.OAuth2.prototype, 'verifyIdToken').mockImplementation(
+      (async () => ({ getPayload: () => claims })) as any,
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getAuthUrl()', () => {
+    it('should send a PKCE challenge and nonce, and set the verifier cookie', async () => {
+      const { authUrl } = await authorize('sign-in')
+
+      const cookie = adapter.cookies.get('kenmon-google-oauth')
+      expect(cookie?.options).toMatchObject({
+        httpOnly: true,
+        sameSite: 'lax',
+        maxAge: 600,
+      })
+      expect(authUrl.searchParams.get('code_challenge_method')).toBe('S256')
+      expect(authUrl.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(cookie!.value).digest('base64url'),
+      )
+      expect(authUrl.searchParams.get('nonce')).toMatch(/^[0-9a-f]{32}$/)
+    })
+  })
+
+  describe('verifyCallback()', () => {
+    it('should exchange the code with the code verifier', async () => {
+      const { state } = await authorize('sign-up')
+      const codeVerifier = adapter.cookies.get('kenmon-google-oauth')!.value
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.intent).toBe('sign-up')
+        expect(result.data.identifier.value).toBe('google-123')
+      }
+      expect(getToken).toHaveBeenCalledWith({
+        code: 'valid-code',
+        codeVerifier,
+      })
+      expect(adapter.cookies.has('kenmon-google-oauth')).toBe(false)
+    })
+
+    it('should reject callbacks in a browser which did not start the flow', async () => {
+      const { state } = await authorize('sign-in')
+      adapter.cookies.clear()
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGoogleOAuthError(result, 'invalid-state')
+      expect(getToken).not.toHaveBeenCalled()
+    })
+
+    it('should reject state from another flow', async () => {
+      const { state } = await authorize('sign-in')
+      // The browser has since started another flow
+      await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGoogleOAuthError(result, 'invalid-state')
+    })
+
+    it('should only accept the code verifier cookie once', async () => {
+      const { state } = await authorize('sign-in')
+      await authenticator.verifyCallback('valid-code', state)
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGoogleOAuthError(result, 'invalid-state')
+    })
+
+    it('should reject ID tokens with another nonce', async () => {
+      const { state } = await authorize('sign-in')
+      claims.nonce = 'other-nonce'
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectGoogleOAuthError(result, 'invalid-id-token')
+    })
+  })
+})
@@ -1,19 +1,23 @@
 import { google } from 'googleapis'
 import jwt from 'jsonwebtoken'
-import { randomBytes } from 'crypto'
-import type { KenmonReturnType } from 'kenmon'
+import { createHash, randomBytes } from 'crypto'
+import type { KenmonAdapter, KenmonReturnType } from 'kenmon'
 import { KenmonError } from 'kenmon'
 import type {
   KenmonGoogleOAuthAuthenticatorConfig,
   KenmonGoogleOAuthData,
   KenmonGoogleOAuthErrorReason,
   KenmonGoogleOAuthIdentifier,
+  KenmonGoogleOAuthIntent,
   GoogleUserInfo,
   StatePayload,
 } from './types'
 
 export * from './types'
 
+const defaultCookieName = 'kenmon-google-oauth'
+const stateTtl = 600 // 10 minutes
+
 export class KenmonGoogleOAuthError extends KenmonError {
   readonly reason: KenmonGoogleOAuthErrorReason
 
@@ -23,6 +27,7 @@ export class KenmonGoogleOAuthError extends KenmonError {
       'expired-state': 'State token has expired',
       'invalid-code': 'Invalid or expired authorization code',
       'token-exchange-failed': 'Failed to exchange code for tokens',
+      'invalid-id-token': 'ID token was not issued for this sign in',
       'profile-fetch-failed': 'Failed to fetch user profile from Google',
     }
 
@@ -35,14 +40,21 @@ export class KenmonGoogleOAuthError extends KenmonError {
 
 export class KenmonGoogleOAuthAuthenticator {
   public readonly type = 'google-oauth'
-  private readonly config: Required<KenmonGoogleOAuthAuthenticatorConfig>
+  private readonly config: Required<
+    Omit<KenmonGoogleOAuthAuthenticatorConfig, 'adapter' | 'secure'>
+  > &
+    Pick<KenmonGoogleOAuthAuthenticatorConfig, 'secure'>
+  private readonly adapter: KenmonAdapter
   private readonly oauth2Client: any
 
   constructor(config: KenmonGoogleOAuthAuthenticatorConfig) {
+    const { adapter, ...rest } = config
     this.config = {
-      ...config,
+      ...rest,
       scopes: config.scopes ?? ['openid', 'email', 'profile'],
+      cookieName: config.cookieName ?? defaultCookieName,
     }
+    this.adapter = adapter
 
     this.oauth2Client = new google.auth.OAuth2(
       this.config.clientId,
@@ -52,24 +64,40 @@ export class KenmonGoogleOAuthAuthenticator {
   }
 
   /**
-   * Generate Google OAuth authorization URL with JWT-signed state
-   * @param intent - 'sign-in' or 'sign-up'
+   * Generate Google OAuth authorization URL with JWT-signed state, and set
+   * the PKCE code verifier cookie which binds the flow to this browser
+   * @param intent - 'sign-in', 'sign-up' or 'link' (attach Google to a signed-in user)
    * @returns Authorization URL string
    */
-  getAuthUrl(intent: 'sign-in' | 'sign-up'): string {
-    const state = this.generateStateToken(intent)
+  async getAuthUrl(intent: KenmonGoogleOAuthIntent): Promise<string> {
+    const codeVerifier = randomBytes(32).toString('base64url')
+    const statePayload = this.createStatePayload(intent, codeVerifier)
+
+    await this.adapter.setCookie(this.config.cookieName, codeVerifier, {
+      httpOnly: true,
+      secure: this.config.secure ?? process.env.NODE_ENV === 'production',
+      // Google redirects back with a top-level GET, which `strict` would drop
+      sameSite: 'lax',
+      maxAge: stateTtl,
+      path: '/',
+    })
 
     const authUrl = this.oauth2Client.generateAuthUrl({
       access_type: 'online',
       scope: this.config.scopes,
-      state,
+      state: this.signStateToken(statePayload),
+      nonce: statePayload.nonce,
+      code_challenge: statePayload.codeChallenge,
+      code_challenge_method: 'S256',
     })
 
     return authUrl
   }
 
   /**
-   * Verify OAuth callback and exchange code for user profile
+   * Verify OAuth callback and exchange code for user profile. Must run in the
+   * browser which called `getAuthUrl()`, as the state is checked against its
+   * code verifier cookie
    * @param code - OAuth authorization code from callback
    * @param state - JWT state token from callback
    * @returns Object with intent and KenmonGoogleOAuthIdentifier
@@ -79,13 +107,24 @@ export class KenmonGoogleOAuthAuthenticator {
     state: string,
   ): Promise<
     KenmonReturnType<{
-      intent: 'sign-in' | 'sign-up'
+      intent: KenmonGoogleOAuthIntent
       identifier: KenmonGoogleOAuthIdentifier
     }>
   > {
-    // Verify state token
+    // The code verifier is single use, drop it whatever the outcome
+    const codeVerifier = await this.adapter.getCookie(this.config.cookieName)
+    if (codeVerifier) {
+      await this.adapter.deleteCookie(this.config.cookieName)
+    }
+
+    // Verify state token, and that this browser started the flow so an
+    // attacker can't sign the victim in with their own callback URL
     const statePayload = this.verifyStateToken(state)
-    if (!statePayload) {
+    if (
+      !statePayload ||
+      !codeVerifier ||
+      this.createCodeChallenge(codeVerifier) !== statePayload.codeChallenge
+    ) {
       return {
         success: false,
         error: new KenmonGoogleOAuthError('invalid-state'),
@@ -94,7 +133,10 @@ export class KenmonGoogleOAuthAuthenticator {
 
     try {
       // Exchange code for tokens
-      const { tokens } = await this.oauth2Client.getToken(code)
+      const { tokens } = await this.oauth2Client.getToken({
+        code,
+        codeVerifier,
+      })
 
       if (!tokens.id_token) {
         return {
@@ -118,6 +160,14 @@ export class KenmonGoogleOAuthAuthenticator {
         }
       }
 
+      // Reject ID tokens replayed from another authorization request
+      if (payload.nonce !== statePayload.nonce) {
+        return {
+          success: false,
+          error: new KenmonGoogleOAuthError('invalid-id-token'),
+        }
+      }
+
       // Build KenmonIdentifier with user data
       const identifier: KenmonGoogleOAuthIdentifier = {
         type: 'google-oauth',
@@ -161,17 +211,30 @@ export class KenmonGoogleOAuthAuthenticator {
     }
   }
 
-  /**
-   * Generate a JWT state token
-   */
-  private generateStateToken(intent: 'sign-in' | 'sign-up'): string {
-    const payload: StatePayload = {
+  private createStatePayload(
+    intent: KenmonGoogleOAuthIntent,
+    codeVerifier: string,
+  ): StatePayload {
+    return {
       iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 600, // 10 minutes
+      exp: Math.floor(Date.now() / 1000) + stateTtl,
       nonce: randomBytes(16).toString('hex'),
       intent,
+      codeChallenge: this.createCodeChallenge(codeVerifier),
     }
+  }
+
+  /**
+   * PKCE S256 code challenge
+   */
+  private createCodeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url')
+  }
 
+  /**
+   * Generate a JWT state token
+   */
+  private signStateToken(payload: StatePayload): string {
     return jwt.sign(payload, this.config.secret)
   }
 
@@ -1,11 +1,14 @@
-import type { KenmonIdentifier } from 'kenmon'
+import type { KenmonAdapter, KenmonIdentifier } from 'kenmon'
 
 export interface KenmonGoogleOAuthAuthenticatorConfig {
   clientId: string
   clientSecret: string
   redirectUri: string
   secret: string // For signing JWT state tokens
+  adapter: KenmonAdapter // Sets the cookie binding the flow to the browser which started it
   scopes?: string[] // Default: ['openid', 'email', 'profile']
+  cookieName?: string // Default: 'kenmon-google-oauth'
+  secure?: boolean // Default: NODE_ENV === 'production'
 }
 
 export interface GoogleUserInfo {
@@ -16,6 +19,7 @@ export interface GoogleUserInfo {
   aud: string // Audience: your client ID
   iat: number // Issued at timestamp
   exp: number // Expiration timestamp
+  nonce?: string // Nonce sent with the authorization request
 
   // From email scope
   email: string // "user@example.com"
@@ -50,11 +54,14 @@ export interface KenmonGoogleOAuthIdentifier extends KenmonIdentifier {
   data: KenmonGoogleOAuthData
 }
 
+export type KenmonGoogleOAuthIntent = 'sign-in' | 'sign-up' | 'link'
+
 export interface StatePayload {
   iat: number // Issued at timestamp
   exp: number // Expires timestamp
-  nonce: string // Random nonce for security
-  intent: 'sign-in' | 'sign-up' // User intent
+  nonce: string // Random nonce, echoed back in the ID token
+  intent: KenmonGoogleOAuthIntent // User intent
+  codeChallenge: string // PKCE S256 challenge of the code verifier in the cookie
 }
 
 export type KenmonGoogleOAuthErrorReason =
@@ -62,4 +69,5 @@ export type KenmonGoogleOAuthErrorReason =
   | 'expired-state'
   | 'invalid-code'
   | 'token-exchange-failed'
+  | 'invalid-id-token'
   | 'profile-fetch-failed'
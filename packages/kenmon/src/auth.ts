@@ -1,15 +1,24 @@
 import crypto from 'crypto'
-import { addSeconds, isAfter } from 'date-fns'
+import { addSeconds, differenceInSeconds, isAfter, min } from 'date-fns'
 import jwt from 'jsonwebtoken'
 import {
   KenmonConfig,
   KenmonAdapter,
   KenmonReturnType,
   KenmonSession,
+  KenmonSessionInfo,
+  KenmonActiveSession,
   KenmonStorage,
+  KenmonHooks,
+  KenmonKeyring,
   KenmonIdentifier,
   KenmonSignInOptions,
   KenmonSignUpOptions,
+  KenmonVerifySessionOptions,
+  KenmonSessionAnomaly,
+  KenmonSessionBindingAction,
+  KenmonSecurityEvent,
+  KenmonDevice,
 } from './types'
 
 import {
@@ -18,15 +27,64 @@ import {
   KenmonSessionNotFoundError,
   KenmonInvalidSessionError,
   KenmonSessionExpiredError,
+  KenmonSessionExpiredReason,
   KenmonMfaFailedError,
+  KenmonIdentifierAlreadyLinkedError,
+  KenmonIdentifierNotFoundError,
+  KenmonLastIdentifierError,
+  KenmonAccountLockedError,
+  KenmonInvalidRecoveryCodeError,
+  KenmonReauthenticationRequiredError,
+  KenmonImpersonationError,
+  KenmonSessionAnomalyError,
 } from './errors'
+import { KenmonRateLimiter } from './rateLimit'
+import { detectSessionAnomalies, getUserAgentFamily } from './binding'
+import { KenmonSecurityNotifier } from './notifications'
 
 const defaultSessionCookieName = 'session'
+// Holds the admin's session token while impersonating, see impersonate()
+const impersonatorCookieSuffix = '-impersonator'
+const bearerTokenPattern = /^Bearer\s+(.+)$/i
+// No 0/o, 1/i/l, so codes can be read aloud and typed from paper
+const recoveryCodeAlphabet = '23456789abcdefghjkmnpqrstuvwxyz'
+const recoveryCodeLength = 10
+// Least to most strict, the strictest action of all anomalies applies
+const sessionBindingActions: KenmonSessionBindingAction[] = [
+  'ignore',
+  'flag',
+  'reauthenticate',
+  'invalidate',
+]
+
+function getRateLimitKeys(
+  action: string,
+  identifier: KenmonIdentifier,
+  ipAddress?: string,
+): string[] {
+  const keys = [`${action}:identifier:${identifier.type}:${identifier.value}`]
+  if (ipAddress) {
+    keys.push(`${action}:ip:${ipAddress}`)
+  }
+  return keys
+}
+
+function normalizeKeyring(secret: string | KenmonKeyring) {
+  if (typeof secret === 'string') {
+    return { current: { secret }, previous: [] }
+  }
+  return { current: secret.current, previous: secret.previous ?? [] }
+}
 
 export class KenmonAuthService<U> {
-  secret: string
+  keyring: {
+    current: { kid?: string; secret: string }
+    previous: { kid?: string; secret: string }[]
+  }
   session: {
     ttl: number
+    idleTimeout?: number
+    maxLifetime?: number
     cookieName: string
     secure: boolean
     sameSite: 'lax' | 'strict' | 'none'
@@ -34,11 +92,35 @@ export class KenmonAuthService<U> {
 
   storage: KenmonStorage<U>
   adapter: KenmonAdapter
+  hooks: KenmonHooks
+  rateLimit: {
+    signIn?: KenmonRateLimiter
+    signUp?: KenmonRateLimiter
+  }
+  lockout?: {
+    maxAttempts: number
+    duration: number
+  }
+  recoveryCodes: {
+    count: number
+  }
+  impersonation: {
+    ttl: number
+  }
+  binding: {
+    ipAddress: KenmonSessionBindingAction
+    userAgent: KenmonSessionBindingAction
+    ipv4Prefix: number
+    ipv6Prefix: number
+  }
+  notifier?: KenmonSecurityNotifier
 
   constructor(config: KenmonConfig<U>) {
-    this.secret = config.secret
+    this.keyring = normalizeKeyring(config.secret)
     this.session = {
       ttl: config.session?.ttl ?? 14 * 24 * 60 * 60,
+      idleTimeout: config.session?.idleTimeout,
+      maxLifetime: config.session?.maxLifetime,
       cookieName: config.session?.cookieName ?? 'session',
       secure: config.session?.secure ?? process.env.NODE_ENV === 'production',
       sameSite: config.session?.sameSite ?? 'lax',
@@ -46,12 +128,43 @@ export class KenmonAuthService<U> {
 
     this.storage = config.storage
     this.adapter = config.adapter
+    this.hooks = config.hooks ?? {}
+    this.rateLimit = config.rateLimit ?? {}
+    this.lockout = config.lockout
+    this.recoveryCodes = {
+      count: config.recoveryCodes?.count ?? 10,
+    }
+    this.impersonation = {
+      ttl: config.impersonation?.ttl ?? 60 * 60,
+    }
+    this.binding = {
+      ipAddress: config.binding?.ipAddress ?? 'ignore',
+      userAgent: config.binding?.userAgent ?? 'ignore',
+      ipv4Prefix: config.binding?.ipv4Prefix ?? 24,
+      ipv6Prefix: config.binding?.ipv6Prefix ?? 64,
+    }
+    this.notifier = config.notifications
+      ? new KenmonSecurityNotifier(config.notifications)
+      : undefined
   }
 
   async signIn(
     identifier: KenmonIdentifier,
     options?: KenmonSignInOptions,
-  ): Promise<KenmonReturnType<{ userId: string; mfaEnabled: boolean }>> {
+  ): Promise<
+    KenmonReturnType<{
+      userId: string
+      mfaEnabled: boolean
+      sessionToken: string
+    }>
+  > {
+    const rateLimitResult = await this.rateLimit.signIn?.consume(
+      getRateLimitKeys('sign-in', identifier, options?.ipAddress),
+    )
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
     // Look up existing user
     const authInfo = await this.storage.getUserAuthInfoByIdentifier(identifier)
 
@@ -61,16 +174,67 @@ export class KenmonAuthService<U> {
 
     const { userId, mfaEnabled } = authInfo
 
+    const lockout = this.lockout
+      ? await this.storage.getUserLockout(userId)
+      : undefined
+    if (lockout?.lockedUntil && isAfter(lockout.lockedUntil, new Date())) {
+      return {
+        success: false,
+        error: new KenmonAccountLockedError(lockout.lockedUntil),
+      }
+    }
+
+    const hookParams = {
+      identifier,
+      userId,
+      ipAddress: options?.ipAddress,
+      userAgent: options?.userAgent,
+    }
+
+    const hookResult = await this.hooks.beforeSignIn?.(hookParams)
+    if (hookResult && !hookResult.success) {
+      return { success: false, error: hookResult.error }
+    }
+
+    // Compare with the existing sessions before adding this one
+    const isNewDevice = await this.isNewDevice(userId, options?.userAgent)
+
     // Create session
-    const session = await this.createSession({
+    const { session, sessionToken } = await this.createSession({
       userId,
       mfaEnabled,
       ipAddress: options?.ipAddress,
       userAgent: options?.userAgent,
+      setCookie: options?.setCookie,
+    })
+
+    // With MFA the user is only authenticated once verifyMfa() passes
+    if (
+      !mfaEnabled &&
+      lockout &&
+      (lockout.failedAttempts > 0 || lockout.lockedUntil)
+    ) {
+      await this.storage.resetFailedAttempts(userId)
+    }
+
+    await this.hooks.afterSignIn?.({
+      ...hookParams,
+      session: this.toSessionInfo(session),
     })
+
+    if (isNewDevice) {
+      await this.notify('new-device-sign-in', userId, {
+        device: this.getDevice(session),
+      })
+    }
+
     return {
       success: true,
-      data: { userId: session.userId, mfaEnabled: session.mfaEnabled },
+      data: {
+        userId: session.userId,
+        mfaEnabled: session.mfaEnabled,
+        sessionToken,
+      },
     }
   }
 
@@ -78,7 +242,14 @@ export class KenmonAuthService<U> {
     identifier: KenmonIdentifier,
     data: any,
     options?: KenmonSignUpOptions,
-  ): Promise<KenmonReturnType<{ userId: string }>> {
+  ): Promise<KenmonReturnType<{ userId: string; sessionToken: string }>> {
+    const rateLimitResult = await this.rateLimit.signUp?.consume(
+      getRateLimitKeys('sign-up', identifier, options?.ipAddress),
+    )
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
     // Check if user already exists
     const existingUser =
       await this.storage.getUserAuthInfoByIdentifier(identifier)
@@ -89,190 +260,1093 @@ export class KenmonAuthService<U> {
       }
     }
 
+    const hookParams = {
+      identifier,
+      data: { ...data, ...options?.initialUserData },
+      ipAddress: options?.ipAddress,
+      userAgent: options?.userAgent,
+    }
+
+    const hookResult = await this.hooks.beforeSignUp?.(hookParams)
+    if (hookResult && !hookResult.success) {
+      return { success: false, error: hookResult.error }
+    }
+
     // Create new user
-    const user = await this.storage.createUser(identifier, {
-      ...data,
-      ...options?.initialUserData,
-    })
+    const user = await this.storage.createUser(identifier, hookParams.data)
 
     // Create session
-    const session = await this.createSession({
+    const { session, sessionToken } = await this.createSession({
       userId: (user as any).id,
       mfaEnabled: false,
       ipAddress: options?.ipAddress,
       userAgent: options?.userAgent,
+      setCookie: options?.setCookie,
     })
-    return { success: true, data: { userId: session.userId } }
+
+    await this.hooks.afterSignUp?.({
+      ...hookParams,
+      userId: session.userId,
+      session: this.toSessionInfo(session),
+    })
+
+    return { success: true, data: { userId: session.userId, sessionToken } }
   }
 
   private async createSession({
     userId,
     mfaEnabled,
+    mfaVerified = false,
+    impersonatorId,
     ipAddress,
     userAgent,
+    setCookie = true,
   }: {
     userId: string
     mfaEnabled: boolean
+    mfaVerified?: boolean
+    impersonatorId?: string
     ipAddress?: string
     userAgent?: string
-  }): Promise<KenmonSession> {
+    setCookie?: boolean
+  }): Promise<{ session: KenmonSession; sessionToken: string }> {
     const token = this.generateSessionToken()
-    const expiresAt = addSeconds(new Date(), this.session.ttl)
+    const now = new Date()
+    const expiresAt = this.getSessionExpiresAt(
+      { createdAt: now, impersonatorId },
+      now,
+    )
 
     const session = await this.storage.createSession({
       userId,
-      token,
+      tokenHash: this.hashSessionToken(token),
       expiresAt,
-      mfaVerified: false,
+      mfaVerified,
       mfaEnabled,
       ipAddress,
       userAgent,
+      impersonatorId,
     })
 
-    await this.setSessionCookie(session.id, session.token)
+    const sessionToken = this.signSessionToken(session.id, token)
+    if (setCookie) {
+      await this.setSessionCookie(
+        sessionToken,
+        differenceInSeconds(expiresAt, now),
+      )
+    }
 
-    return session
+    return { session, sessionToken }
   }
 
-  async verifySession(options?: {
-    skipMfaCheck?: boolean
-  }): Promise<
-    KenmonReturnType<{
-      id: string
-      userId: string
-      expiresAt: Date
-      refreshedAt: Date
-      createdAt: Date
-      mfaVerified: boolean
-      mfaEnabled: boolean
-    }>
-  > {
+  /**
+   * Validate the session of the current request. Pass `maxAuthAge` for
+   * sensitive actions to also require a recent sign in or `reauthenticate()`.
+   * Pass the request's `ipAddress` and `userAgent` to apply the `binding`
+   * policy when they no longer match the session.
+   */
+  async verifySession(
+    options?: KenmonVerifySessionOptions,
+  ): Promise<KenmonReturnType<KenmonSessionInfo>> {
+    const result = await this.validateSession(options)
+    if (!result.success) {
+      await this.hooks.onVerifySessionFailure?.({ error: result.error })
+    }
+    return result
+  }
+
+  // Used by the other methods, so onVerifySessionFailure only reports the
+  // app's own verifySession() calls
+  private async validateSession(
+    options?: KenmonVerifySessionOptions,
+  ): Promise<KenmonReturnType<KenmonSessionInfo>> {
     const skipMfaCheck = options?.skipMfaCheck || false
 
-    const cookieValue = await this.adapter.getCookie(
-      this.session.cookieName || defaultSessionCookieName,
-    )
+    const sessionToken = await this.readSessionToken()
 
-    if (!cookieValue) {
+    if (!sessionToken) {
       return { success: false, error: new KenmonSessionNotFoundError() }
     }
 
     try {
-      const decoded = jwt.verify(cookieValue, this.secret) as {
+      const decoded = this.verifySessionToken(sessionToken.value) as {
         sessionId: string
         token: string
       }
 
       const session = await this.storage.getSessionById(decoded.sessionId)
-      if (!session || session.token !== decoded.token || session.invalidated) {
+      if (
+        !session ||
+        !this.isSessionTokenValid(decoded.token, session.tokenHash) ||
+        session.invalidated
+      ) {
         return { success: false, error: new KenmonInvalidSessionError() }
       }
 
-      if (isAfter(new Date(), session.expiresAt)) {
-        return { success: false, error: new KenmonSessionExpiredError() }
+      const now = new Date()
+      const expiredReason = this.getSessionExpiredReason(session, now)
+      if (expiredReason) {
+        return {
+          success: false,
+          error: new KenmonSessionExpiredError(expiredReason),
+        }
+      }
+
+      const binding = this.checkSessionBinding(session, options)
+      if (binding.action === 'invalidate') {
+        await this.storage.invalidateSession(session.id)
+        return {
+          success: false,
+          error: new KenmonSessionAnomalyError(binding.anomalies),
+        }
       }
 
       if (!skipMfaCheck && session.mfaEnabled && !session.mfaVerified) {
         return { success: false, error: new KenmonMfaFailedError() }
       }
 
+      if (binding.action === 'reauthenticate') {
+        return {
+          success: false,
+          error: new KenmonReauthenticationRequiredError(
+            session.authenticatedAt,
+            binding.anomalies,
+          ),
+        }
+      }
+
+      if (
+        options?.maxAuthAge != null &&
+        isAfter(now, addSeconds(session.authenticatedAt, options.maxAuthAge))
+      ) {
+        return {
+          success: false,
+          error: new KenmonReauthenticationRequiredError(
+            session.authenticatedAt,
+          ),
+        }
+      }
+
       // Update usedAt timestamp
       await this.storage.updateSession(session.id, {
-        usedAt: new Date(),
+        usedAt: now,
       })
 
-      return {
-        success: true,
-        data: {
-          id: session.id,
-          userId: session.userId,
-          expiresAt: session.expiresAt,
-          refreshedAt: session.refreshedAt,
-          createdAt: session.createdAt,
-          mfaVerified: session.mfaVerified,
-          mfaEnabled: session.mfaEnabled,
-        },
+      const sessionInfo = this.toSessionInfo(session)
+      if (binding.anomalies.length > 0) {
+        sessionInfo.anomalies = binding.anomalies
       }
+      return { success: true, data: sessionInfo }
     } catch {
       return { success: false, error: new KenmonInvalidSessionError() }
     }
   }
 
-  async refreshSession(): Promise<KenmonReturnType<void>> {
-    const verifyResult = await this.verifySession()
+  /**
+   * Extend the current session. The session token is re-signed with the
+   * current key; bearer clients receive it as `sessionToken` and should
+   * replace the one they hold, cookie sessions get a new cookie instead.
+   */
+  async refreshSession(): Promise<KenmonReturnType<{ sessionToken?: string }>> {
+    const verifyResult = await this.validateSession()
     if (!verifyResult.success) {
       return { success: false, error: verifyResult.error }
     }
 
     const safeSessionData = verifyResult.data
+    const hookResult = await this.hooks.beforeRefreshSession?.({
+      userId: safeSessionData.userId,
+      session: safeSessionData,
+    })
+    if (hookResult && !hookResult.success) {
+      return { success: false, error: hookResult.error }
+    }
+
     const now = new Date()
-    const newExpiresAt = addSeconds(now, this.session.ttl)
+    const newExpiresAt = this.getSessionExpiresAt(safeSessionData, now)
 
     await this.storage.updateSession(safeSessionData.id, {
       expiresAt: newExpiresAt,
       refreshedAt: now,
     })
 
-    // Fetch full session to get token for cookie
     const fullSession = await this.storage.getSessionById(safeSessionData.id)
-    if (!fullSession) {
+    const currentSessionToken = await this.readSessionToken()
+    if (!fullSession || !currentSessionToken) {
       return { success: false, error: new KenmonSessionNotFoundError() }
     }
 
-    await this.setSessionCookie(fullSession.id, fullSession.token)
+    // Only the hash is stored, so take the raw token from the verified JWT.
+    // Re-sign with the current key so rotated keys can be retired
+    const { token } = this.verifySessionToken(currentSessionToken.value)
+    const sessionToken = this.signSessionToken(fullSession.id, token)
+    const isBearer = currentSessionToken.source === 'bearer'
+    if (!isBearer) {
+      await this.setSessionCookie(
+        sessionToken,
+        differenceInSeconds(newExpiresAt, now),
+      )
+    }
 
-    return { success: true, data: undefined }
+    await this.hooks.afterRefreshSession?.({
+      userId: fullSession.userId,
+      session: this.toSessionInfo(fullSession),
+    })
+
+    // Never hand out cookie session tokens, they are httpOnly for a reason
+    return { success: true, data: isBearer ? { sessionToken } : {} }
   }
 
   async signOut(options?: { allSessions?: boolean }): Promise<void> {
-    const verifyResult = await this.verifySession()
-    if (verifyResult.success) {
+    const verifyResult = await this.validateSession()
+    const hookParams = verifyResult.success
+      ? {
+          userId: verifyResult.data.userId,
+          session: verifyResult.data,
+          allSessions: options?.allSessions ?? false,
+        }
+      : undefined
+
+    if (hookParams) {
+      await this.hooks.beforeSignOut?.(hookParams)
       if (options?.allSessions) {
-        await this.storage.invalidateAllUserSessions(verifyResult.data.userId)
+        await this.storage.invalidateAllUserSessions(hookParams.userId)
+        await this.notify('all-sessions-revoked', hookParams.userId)
       } else {
-        await this.storage.invalidateSession(verifyResult.data.id)
+        await this.storage.invalidateSession(hookParams.session.id)
       }
     }
+
+    // Signing out of an impersonation also ends the admin session kept aside
+    // for stopImpersonation(), also once the impersonation has expired
+    const impersonatorCookieName = this.getImpersonatorCookieName()
+    const adminSessionToken = await this.adapter.getCookie(
+      impersonatorCookieName,
+    )
+    if (adminSessionToken) {
+      const adminSession = await this.getSessionByToken(adminSessionToken)
+      if (adminSession) {
+        await this.storage.invalidateSession(adminSession.id)
+      }
+      await this.adapter.deleteCookie(impersonatorCookieName)
+    }
+
     await this.adapter.deleteCookie(
       this.session.cookieName || defaultSessionCookieName,
     )
+
+    if (hookParams) {
+      await this.hooks.afterSignOut?.(hookParams)
+    }
+  }
+
+  /**
+   * List the active (not invalidated, not expired, not timed out) sessions
+   * of a user, most recently used first.
+   */
+  async listSessions(userId: string): Promise<KenmonActiveSession[]> {
+    const sessions = await this.storage.getUserSessions(userId)
+    const currentSessionId = await this.getCurrentSessionId()
+    const now = new Date()
+
+    return sessions
+      .filter(
+        (session) =>
+          !session.invalidated && !this.getSessionExpiredReason(session, now),
+      )
+      .sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime())
+      .map((session) => ({
+        ...this.toSessionInfo(session),
+        usedAt: session.usedAt,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        current: session.id === currentSessionId,
+      }))
+  }
+
+  /**
+   * Revoke a session of a user, e.g. from a "where you're signed in" page.
+   * Revoking the current session also deletes the session cookie.
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<KenmonReturnType<void>> {
+    const session = await this.storage.getSessionById(sessionId)
+    if (!session || session.userId !== userId || session.invalidated) {
+      return { success: false, error: new KenmonInvalidSessionError() }
+    }
+
+    await this.storage.invalidateSession(sessionId)
+
+    if (sessionId === (await this.getCurrentSessionId())) {
+      await this.adapter.deleteCookie(
+        this.session.cookieName || defaultSessionCookieName,
+      )
+    }
+
+    return { success: true, data: undefined }
   }
 
-  async enableMfa(userId: string): Promise<void> {
+  /**
+   * Mark the current session as MFA verified.
+   * The identifier must come from a second-factor authenticator
+   * (e.g. TOTP) and carry the session user's ID as its value.
+   * Fails while the account is locked, and identifiers of another user count
+   * towards the account lockout.
+   */
+  async verifyMfa(
+    identifier: KenmonIdentifier,
+  ): Promise<KenmonReturnType<void>> {
+    const verifyResult = await this.validateSession({ skipMfaCheck: true })
+    if (!verifyResult.success) {
+      return { success: false, error: verifyResult.error }
+    }
+
+    const { id: sessionId, userId } = verifyResult.data
+
+    const lockedUntil = await this.getLockedUntil(userId)
+    if (lockedUntil) {
+      return {
+        success: false,
+        error: new KenmonAccountLockedError(lockedUntil),
+      }
+    }
+
+    if (identifier.value !== userId) {
+      await this.countFailedAttempt(userId)
+      return { success: false, error: new KenmonMfaFailedError() }
+    }
+
+    await this.storage.updateSession(sessionId, {
+      mfaVerified: true,
+    })
+    await this.resetFailedAttempts(userId)
+
+    return { success: true, data: undefined }
+  }
+
+  /**
+   * Mark the current session as MFA verified with a recovery code, for users
+   * who lost their second factor. Each code works once, and wrong codes count
+   * towards the account lockout.
+   * @returns Number of recovery codes left
+   */
+  async verifyRecoveryCode(
+    code: string,
+  ): Promise<KenmonReturnType<{ remaining: number }>> {
+    const verifyResult = await this.validateSession({ skipMfaCheck: true })
+    if (!verifyResult.success) {
+      return { success: false, error: verifyResult.error }
+    }
+
+    const { id: sessionId, userId } = verifyResult.data
+
+    const lockedUntil = await this.getLockedUntil(userId)
+    if (lockedUntil) {
+      return {
+        success: false,
+        error: new KenmonAccountLockedError(lockedUntil),
+      }
+    }
+
+    if (!(await this.consumeRecoveryCode(userId, code))) {
+      await this.countFailedAttempt(userId)
+      return { success: false, error: new KenmonInvalidRecoveryCodeError() }
+    }
+
+    await this.storage.updateSession(sessionId, {
+      mfaVerified: true,
+    })
+    await this.resetFailedAttempts(userId)
+
+    return {
+      success: true,
+      data: { remaining: await this.storage.countRecoveryCodes(userId) },
+    }
+  }
+
+  /**
+   * Sign in as another user, e.g. for support staff. Check that the admin
+   * may impersonate before calling it. The admin's session must pass the
+   * MFA check, and the new session is marked with `impersonatorId` and
+   * expires after `impersonation.ttl`.
+   * Cookie sessions keep the admin's session aside for `stopImpersonation()`,
+   * bearer clients receive the new token and keep their own.
+   */
+  async impersonate(
+    adminUserId: string,
+    targetUserId: string,
+    options?: { ipAddress?: string; userAgent?: string },
+  ): Promise<KenmonReturnType<{ sessionToken?: string }>> {
+    const verifyResult = await this.validateSession()
+    if (!verifyResult.success) {
+      return { success: false, error: verifyResult.error }
+    }
+
+    const adminSession = verifyResult.data
+    if (adminSession.userId !== adminUserId) {
+      return { success: false, error: new KenmonInvalidSessionError() }
+    }
+    if (adminSession.impersonatorId) {
+      return {
+        success: false,
+        error: new KenmonImpersonationError('already-impersonating'),
+      }
+    }
+    if (targetUserId === adminUserId) {
+      return {
+        success: false,
+        error: new KenmonImpersonationError('self-impersonation'),
+      }
+    }
+
+    const targetUser = await this.storage.getUserById(targetUserId)
+    if (!targetUser) {
+      return { success: false, error: new KenmonUserNotFoundError() }
+    }
+
+    const adminSessionToken = await this.readSessionToken()
+    if (!adminSessionToken) {
+      return { success: false, error: new KenmonSessionNotFoundError() }
+    }
+    const isBearer = adminSessionToken.source === 'bearer'
+
+    // The admin's verified MFA stands in for the user's second factor
+    const { sessionToken } = await this.createSession({
+      userId: targetUserId,
+      mfaEnabled: adminSession.mfaEnabled,
+      mfaVerified: adminSession.mfaVerified,
+      impersonatorId: adminUserId,
+      ipAddress: options?.ipAddress,
+      userAgent: options?.userAgent,
+      setCookie: !isBearer,
+    })
+
+    if (!isBearer) {
+      await this.setSessionCookie(
+        adminSessionToken.value,
+        differenceInSeconds(adminSession.expiresAt, new Date()),
+        this.getImpersonatorCookieName(),
+      )
+    }
+
+    return { success: true, data: isBearer ? { sessionToken } : {} }
+  }
+
+  /**
+   * End the impersonation session of the current request, also once it has
+   * expired, and switch cookie sessions back to the admin's session.
+   * @returns ID of the admin
+   */
+  async stopImpersonation(): Promise<KenmonReturnType<{ userId: string }>> {
+    const sessionId = await this.getCurrentSessionId()
+    const session = sessionId
+      ? await this.storage.getSessionById(sessionId)
+      : null
+    if (!session?.impersonatorId) {
+      return {
+        success: false,
+        error: new KenmonImpersonationError('not-impersonating'),
+      }
+    }
+
+    await this.storage.invalidateSession(session.id)
+
+    const cookieName = this.session.cookieName || defaultSessionCookieName
+    const impersonatorCookieName = this.getImpersonatorCookieName()
+    const adminSessionToken = await this.adapter.getCookie(
+      impersonatorCookieName,
+    )
+    await this.adapter.deleteCookie(impersonatorCookieName)
+
+    const adminSession = adminSessionToken
+      ? await this.getSessionByToken(adminSessionToken)
+      : null
+    const now = new Date()
+    if (
+      adminSessionToken &&
+      adminSession?.userId === session.impersonatorId &&
+      !adminSession.invalidated &&
+      !this.getSessionExpiredReason(adminSession, now)
+    ) {
+      await this.setSessionCookie(
+        adminSessionToken,
+        differenceInSeconds(adminSession.expiresAt, now),
+      )
+    } else {
+      await this.adapter.deleteCookie(cookieName)
+    }
+
+    return { success: true, data: { userId: session.impersonatorId } }
+  }
+
+  /**
+   * Mark the current session as freshly authenticated, after the user proved
+   * their identity again (e.g. with a new OTP) for a `maxAuthAge` check.
+   * The session and its token stay the same. The identifier must be linked
+   * to the session user, or be a second-factor identifier carrying the
+   * user's ID as its value.
+   * Pass the request's `ipAddress` and `userAgent` to bind the session to
+   * them, which clears anomalies of the `binding` policy.
+   */
+  async reauthenticate(
+    identifier: KenmonIdentifier,
+    options?: { ipAddress?: string; userAgent?: string },
+  ): Promise<KenmonReturnType<void>> {
+    const verifyResult = await this.validateSession()
+    if (!verifyResult.success) {
+      return { success: false, error: verifyResult.error }
+    }
+
+    const { id: sessionId, userId } = verifyResult.data
+
+    if (identifier.value !== userId) {
+      const authInfo =
+        await this.storage.getUserAuthInfoByIdentifier(identifier)
+      if (authInfo?.userId !== userId) {
+        return { success: false, error: new KenmonIdentifierNotFoundError() }
+      }
+    }
+
+    const lockedUntil = await this.getLockedUntil(userId)
+    if (lockedUntil) {
+      return {
+        success: false,
+        error: new KenmonAccountLockedError(lockedUntil),
+      }
+    }
+
+    await this.storage.updateSession(sessionId, {
+      authenticatedAt: new Date(),
+      ...(options?.ipAddress && { ipAddress: options.ipAddress }),
+      ...(options?.userAgent && { userAgent: options.userAgent }),
+    })
+
+    return { success: true, data: undefined }
+  }
+
+  /**
+   * Attach another identifier (e.g. Google after email OTP) to a user.
+   * Fails if the identifier already belongs to any user.
+   */
+  async linkIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<KenmonReturnType<void>> {
+    const existing = await this.storage.getUserAuthInfoByIdentifier(identifier)
+    if (existing) {
+      return {
+        success: false,
+        error: new KenmonIdentifierAlreadyLinkedError(identifier.value),
+      }
+    }
+
+    await this.storage.createUserIdentifier(userId, identifier)
+    await this.notify('identifier-linked', userId, { identifier })
+
+    return { success: true, data: undefined }
+  }
+
+  /**
+   * Detach an identifier from a user.
+   * The last identifier cannot be unlinked since the user could not sign in anymore.
+   */
+  async unlinkIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<KenmonReturnType<void>> {
+    const identifiers = await this.storage.getUserIdentifiers(userId)
+    const linked = identifiers.some(
+      (linkedIdentifier) =>
+        linkedIdentifier.type === identifier.type &&
+        linkedIdentifier.value === identifier.value,
+    )
+    if (!linked) {
+      return { success: false, error: new KenmonIdentifierNotFoundError() }
+    }
+
+    if (identifiers.length <= 1) {
+      return { success: false, error: new KenmonLastIdentifierError() }
+    }
+
+    await this.storage.deleteUserIdentifier(userId, identifier)
+
+    return { success: true, data: undefined }
+  }
+
+  async listIdentifiers(userId: string): Promise<KenmonIdentifier[]> {
+    return this.storage.getUserIdentifiers(userId)
+  }
+
+  /**
+   * Count a failed authentication (e.g. a wrong OTP or TOTP code) for the
+   * user owning the identifier, locking the account once `lockout.maxAttempts`
+   * consecutive failures are reached. The count resets once a sign in is
+   * complete, i.e. after the second factor for users with MFA.
+   * Use `reportFailedMfa()` for second factors.
+   */
+  async reportFailedAuthentication(
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    if (!this.lockout) {
+      return
+    }
+
+    const authInfo = await this.storage.getUserAuthInfoByIdentifier(identifier)
+    if (!authInfo) {
+      return
+    }
+
+    await this.countFailedAttempt(authInfo.userId)
+  }
+
+  /**
+   * Count a failed second factor (e.g. a wrong TOTP code or passkey) for the
+   * user, like `reportFailedAuthentication()`. Second-factor identifiers
+   * carry the user ID instead of being linked to the user, so report the
+   * user of the session being verified.
+   */
+  async reportFailedMfa(userId: string): Promise<void> {
+    await this.countFailedAttempt(userId)
+  }
+
+  /**
+   * Require a second factor for new sessions of the user.
+   * @returns A new set of recovery codes, show them to the user once
+   */
+  async enableMfa(userId: string): Promise<string[]> {
     await this.storage.enableMfa(userId)
+    const codes = await this.regenerateRecoveryCodes(userId)
+    await this.notify('mfa-enabled', userId)
+    return codes
   }
 
   async disableMfa(userId: string): Promise<void> {
     await this.storage.disableMfa(userId)
+    await this.storage.replaceRecoveryCodes(userId, [])
+    await this.notify('mfa-disabled', userId)
   }
 
-  private async setSessionCookie(
-    sessionId: string,
-    token: string,
+  /**
+   * Replace the recovery codes of a user, e.g. once most of them are used.
+   * The previous codes stop working.
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.recoveryCodes.count }, () =>
+      this.generateRecoveryCode(),
+    )
+    await this.storage.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code)),
+    )
+    return codes
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.storage.countRecoveryCodes(userId)
+  }
+
+  /**
+   * Email the user about a security event if it is enabled in
+   * `notifications`. The device defaults to the one of the current session
+   * when it belongs to the user.
+   */
+  private async notify(
+    event: KenmonSecurityEvent,
+    userId: string,
+    details?: { device?: KenmonDevice; identifier?: KenmonIdentifier },
   ): Promise<void> {
+    if (!this.notifier?.isEnabled(event)) {
+      return
+    }
+
+    await this.notifier.notify({
+      event,
+      userId,
+      occurredAt: new Date(),
+      device: details?.device ?? (await this.getCurrentDevice(userId)),
+      identifier: details?.identifier,
+    })
+  }
+
+  // Devices are told apart by browser and OS, see getUserAgentFamily()
+  private async isNewDevice(
+    userId: string,
+    userAgent?: string,
+  ): Promise<boolean> {
+    if (!userAgent || !this.notifier?.isEnabled('new-device-sign-in')) {
+      return false
+    }
+
+    // Signed out sessions count too, or signing back in would be a new device
+    const family = getUserAgentFamily(userAgent)
+    const sessions = await this.storage.getUserSessions(userId, {
+      includeInvalidated: true,
+    })
+    return !sessions.some(
+      (session) =>
+        session.userAgent && getUserAgentFamily(session.userAgent) === family,
+    )
+  }
+
+  private async getCurrentDevice(
+    userId: string,
+  ): Promise<KenmonDevice | undefined> {
+    const sessionId = await this.getCurrentSessionId()
+    const session = sessionId
+      ? await this.storage.getSessionById(sessionId)
+      : null
+    return session?.userId === userId ? this.getDevice(session) : undefined
+  }
+
+  private getDevice(session: {
+    ipAddress?: string
+    userAgent?: string
+  }): KenmonDevice | undefined {
+    if (!session.ipAddress && !session.userAgent) {
+      return undefined
+    }
+
+    return {
+      name: session.userAgent
+        ? getUserAgentFamily(session.userAgent)
+        : undefined,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+    }
+  }
+
+  private async getLockedUntil(userId: string): Promise<Date | undefined> {
+    if (!this.lockout) {
+      return undefined
+    }
+
+    const { lockedUntil } = await this.storage.getUserLockout(userId)
+    return lockedUntil && isAfter(lockedUntil, new Date())
+      ? lockedUntil
+      : undefined
+  }
+
+  private async countFailedAttempt(userId: string): Promise<void> {
+    if (!this.lockout) {
+      return
+    }
+
+    const now = new Date()
+    const lockout = await this.storage.getUserLockout(userId)
+    if (lockout.lockedUntil) {
+      if (isAfter(lockout.lockedUntil, now)) {
+        return
+      }
+      // The previous lock has passed, start counting again
+      await this.storage.resetFailedAttempts(userId)
+    }
+
+    const failedAttempts = await this.storage.incrementFailedAttempts(userId)
+    if (failedAttempts >= this.lockout.maxAttempts) {
+      await this.storage.lockUser(
+        userId,
+        addSeconds(now, this.lockout.duration),
+      )
+    }
+  }
+
+  private async resetFailedAttempts(userId: string): Promise<void> {
+    if (!this.lockout) {
+      return
+    }
+
+    const lockout = await this.storage.getUserLockout(userId)
+    if (lockout.failedAttempts > 0 || lockout.lockedUntil) {
+      await this.storage.resetFailedAttempts(userId)
+    }
+  }
+
+  /**
+   * Read the session JWT from the session cookie, falling back to an
+   * `Authorization: Bearer` header for API and mobile clients.
+   */
+  private async readSessionToken(): Promise<
+    { value: string; source: 'cookie' | 'bearer' } | undefined
+  > {
+    const cookieValue = await this.adapter.getCookie(
+      this.session.cookieName || defaultSessionCookieName,
+    )
+    if (cookieValue) {
+      return { value: cookieValue, source: 'cookie' }
+    }
+
+    const authorization = await this.adapter.getHeader?.('Authorization')
+    const match = authorization?.trim().match(bearerTokenPattern)
+    if (match) {
+      return { value: match[1], source: 'bearer' }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Resolve the ID of the session of the current request without
+   * validating it against storage.
+   */
+  private async getCurrentSessionId(): Promise<string | undefined> {
+    const sessionToken = await this.readSessionToken()
+    if (!sessionToken) {
+      return undefined
+    }
+
+    try {
+      const decoded = this.verifySessionToken(sessionToken.value) as {
+        sessionId: string
+      }
+      return decoded.sessionId
+    } catch {
+      return undefined
+    }
+  }
+
+  private getImpersonatorCookieName(): string {
+    return (
+      (this.session.cookieName || defaultSessionCookieName) +
+      impersonatorCookieSuffix
+    )
+  }
+
+  // Look up the session of a session JWT, checking its token hash
+  private async getSessionByToken(
+    sessionToken: string,
+  ): Promise<KenmonSession | null> {
+    try {
+      const decoded = this.verifySessionToken(sessionToken) as {
+        sessionId: string
+        token: string
+      }
+      const session = await this.storage.getSessionById(decoded.sessionId)
+      return session &&
+        this.isSessionTokenValid(decoded.token, session.tokenHash)
+        ? session
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Extend a session by the TTL without exceeding its maximum lifetime.
+   */
+  private getSessionExpiresAt(
+    session: { createdAt: Date; impersonatorId?: string },
+    now: Date,
+  ): Date {
+    const expiresAt = addSeconds(now, this.session.ttl)
+    const maxLifetime = this.getSessionMaxLifetime(session)
+    if (maxLifetime == null) {
+      return expiresAt
+    }
+    return min([expiresAt, addSeconds(session.createdAt, maxLifetime)])
+  }
+
+  // Impersonation sessions are also capped by `impersonation.ttl`
+  private getSessionMaxLifetime(session: {
+    impersonatorId?: string
+  }): number | undefined {
+    const { maxLifetime } = this.session
+    if (!session.impersonatorId) {
+      return maxLifetime
+    }
+    return Math.min(this.impersonation.ttl, maxLifetime ?? Infinity)
+  }
+
+  /**
+   * Tell why a session can no longer be used, if so.
+   * The maximum lifetime is checked first since it also caps `expiresAt`.
+   */
+  private getSessionExpiredReason(
+    session: KenmonSession,
+    now: Date,
+  ): KenmonSessionExpiredReason | undefined {
+    const { idleTimeout } = this.session
+    const maxLifetime = this.getSessionMaxLifetime(session)
+    if (
+      maxLifetime != null &&
+      isAfter(now, addSeconds(session.createdAt, maxLifetime))
+    ) {
+      return 'absolute-timeout'
+    }
+    if (
+      idleTimeout != null &&
+      isAfter(now, addSeconds(session.usedAt, idleTimeout))
+    ) {
+      return 'idle-timeout'
+    }
+    if (isAfter(now, session.expiresAt)) {
+      return 'expired'
+    }
+    return undefined
+  }
+
+  private checkSessionBinding(
+    session: KenmonSession,
+    request?: { ipAddress?: string; userAgent?: string },
+  ): {
+    action: KenmonSessionBindingAction
+    anomalies: KenmonSessionAnomaly[]
+  } {
+    const anomalies = detectSessionAnomalies(
+      session,
+      request ?? {},
+      this.binding,
+    ).filter((anomaly) => this.getSessionBindingAction(anomaly) !== 'ignore')
+
+    const action = anomalies.reduce<KenmonSessionBindingAction>(
+      (strictest, anomaly) => {
+        const anomalyAction = this.getSessionBindingAction(anomaly)
+        return sessionBindingActions.indexOf(anomalyAction) >
+          sessionBindingActions.indexOf(strictest)
+          ? anomalyAction
+          : strictest
+      },
+      'ignore',
+    )
+
+    return { action, anomalies }
+  }
+
+  private getSessionBindingAction(
+    anomaly: KenmonSessionAnomaly,
+  ): KenmonSessionBindingAction {
+    return anomaly.type === 'ip-address'
+      ? this.binding.ipAddress
+      : this.binding.userAgent
+  }
+
+  private toSessionInfo(session: KenmonSession): KenmonSessionInfo {
+    return {
+      id: session.id,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+      refreshedAt: session.refreshedAt,
+      createdAt: session.createdAt,
+      authenticatedAt: session.authenticatedAt,
+      mfaVerified: session.mfaVerified,
+      mfaEnabled: session.mfaEnabled,
+      impersonatorId: session.impersonatorId,
+    }
+  }
+
+  private signSessionToken(sessionId: string, token: string): string {
     const payload = {
       sessionId,
       token,
     }
 
-    const jwtToken = jwt.sign(payload, this.secret, {
+    const { kid, secret } = this.keyring.current
+    return jwt.sign(payload, secret, {
       algorithm: 'HS256',
+      ...(kid ? { keyid: kid } : {}),
     })
+  }
 
-    await this.adapter.setCookie(
-      this.session.cookieName || defaultSessionCookieName,
-      jwtToken,
-      {
-        httpOnly: true,
-        secure: this.session.secure ?? process.env.NODE_ENV === 'production',
-        sameSite: this.session.sameSite || 'lax',
-        maxAge: this.session.ttl,
-        path: '/',
-      },
+  /**
+   * Verify a session JWT against the keyring.
+   * Tokens with a `kid` header are only checked against the matching key,
+   * tokens without one (signed by a plain string secret) against every key.
+   */
+  private verifySessionToken(sessionToken: string): jwt.JwtPayload {
+    const decoded = jwt.decode(sessionToken, { complete: true })
+    if (!decoded) {
+      throw new KenmonInvalidSessionError()
+    }
+
+    const kid = decoded.header.kid
+    const keys = [this.keyring.current, ...this.keyring.previous].filter(
+      (key) => kid == null || key.kid === kid,
     )
+
+    for (const key of keys) {
+      try {
+        return jwt.verify(sessionToken, key.secret, {
+          algorithms: ['HS256'],
+        }) as jwt.JwtPayload
+      } catch {
+        // Try the next key
+      }
+    }
+
+    throw new KenmonInvalidSessionError()
+  }
+
+  private async setSessionCookie(
+    sessionToken: string,
+    maxAge: number,
+    cookieName = this.session.cookieName || defaultSessionCookieName,
+  ): Promise<void> {
+    await this.adapter.setCookie(cookieName, sessionToken, {
+      httpOnly: true,
+      secure: this.session.secure ?? process.env.NODE_ENV === 'production',
+      sameSite: this.session.sameSite || 'lax',
+      maxAge,
+      path: '/',
+    })
   }
 
   private generateSessionToken(): string {
     return crypto.randomBytes(32).toString('hex')
   }
+
+  // Storage only keeps a SHA-256 of the token, so a leaked sessions table
+  // can't be turned into valid session JWTs
+  private hashSessionToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  // Formatted as `xxxxx-xxxxx`
+  private generateRecoveryCode(): string {
+    const characters = Array.from(
+      { length: recoveryCodeLength },
+      () => recoveryCodeAlphabet[crypto.randomInt(recoveryCodeAlphabet.length)],
+    ).join('')
+    return `${characters.slice(0, 5)}-${characters.slice(5)}`
+  }
+
+  // Codes are too short for a plain SHA-256, which a leaked table could be
+  // brute forced against offline, so the hash is keyed with the secret.
+  // Hashing ignores case, spaces and dashes so typed codes still match
+  private hashRecoveryCode(
+    code: string,
+    secret = this.keyring.current.secret,
+  ): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+    return crypto.createHmac('sha256', secret).update(normalized).digest('hex')
+  }
+
+  // Codes created before a key rotation are hashed with a previous secret
+  private async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    for (const { secret } of [this.keyring.current, ...this.keyring.previous]) {
+      if (
+        await this.storage.consumeRecoveryCode(
+          userId,
+          this.hashRecoveryCode(code, secret),
+        )
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private isSessionTokenValid(token: unknown, tokenHash: string): boolean {
+    if (typeof token !== 'string') return false
+
+    const expected = Buffer.from(tokenHash, 'hex')
+    const actual = Buffer.from(this.hashSessionToken(token), 'hex')
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    )
+  }
 }
@@ -0,0 +1,147 @@
+import { isIP } from 'net'
+import { KenmonSessionAnomaly } from './types'
+
+const ipv4MappedPattern = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i
+
+// First match wins, so browsers built on Chrome or Safari come first
+const browserPatterns: [string, RegExp][] = [
+  ['Edge', /\bEdg(e|A|iOS)?\//],
+  ['Opera', /\b(OPR|Opera)\//],
+  ['Samsung Internet', /\bSamsungBrowser\//],
+  ['Firefox', /\b(Firefox|FxiOS)\//],
+  ['Chrome', /\b(Chrome|CriOS|Chromium)\//],
+  ['Safari', /\bSafari\//],
+]
+
+const osPatterns: [string, RegExp][] = [
+  ['Windows', /\bWindows\b/],
+  ['Android', /\bAndroid\b/],
+  ['iOS', /\b(iPhone|iPad|iPod)\b/],
+  ['ChromeOS', /\bCrOS\b/],
+  ['macOS', /\b(Macintosh|Mac OS X)\b/],
+  ['Linux', /\bLinux\b/],
+]
+
+function ipv4ToBytes(ipAddress: string): number[] {
+  return ipAddress.split('.').map(Number)
+}
+
+function ipv6ToBytes(ipAddress: string): number[] {
+  let address = ipAddress
+  // Embedded IPv4 in the last 32 bits, e.g. 64:ff9b::192.0.2.1
+  const lastColon = address.lastIndexOf(':')
+  if (address.includes('.', lastColon)) {
+    const [a, b, c, d] = ipv4ToBytes(address.slice(lastColon + 1))
+    const groups = [(a << 8) | b, (c << 8) | d].map((group) =>
+      group.toString(16),
+    )
+    address = `${address.slice(0, lastColon + 1)}${groups.join(':')}`
+  }
+
+  const [head, tail] = address.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+          ...tailGroups,
+        ]
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+/**
+ * Network of an IP address, i.e. the address with the bits after the prefix
+ * cleared, or `undefined` if it can't be parsed.
+ * IPv4-mapped IPv6 addresses count as IPv4.
+ */
+export function getIpNetwork(
+  ipAddress: string,
+  prefixes: { ipv4Prefix: number; ipv6Prefix: number },
+): string | undefined {
+  // Zone IDs like fe80::1%eth0 only name the local interface
+  const address = ipAddress
+    .trim()
+    .split('%')[0]
+    .replace(ipv4MappedPattern, '$1')
+  const version = isIP(address)
+  if (!version) {
+    return undefined
+  }
+
+  const bytes = version === 4 ? ipv4ToBytes(address) : ipv6ToBytes(address)
+  const prefix = version === 4 ? prefixes.ipv4Prefix : prefixes.ipv6Prefix
+  const masked = bytes.map((byte, index) => {
+    const bits = Math.min(Math.max(prefix - index * 8, 0), 8)
+    return byte & ((0xff << (8 - bits)) & 0xff)
+  })
+
+  const network =
+    version === 4
+      ? masked.join('.')
+      : masked.map((byte) => byte.toString(16)).join(':')
+  return `${network}/${prefix}`
+}
+
+/**
+ * Browser and operating system of a user agent, ignoring versions,
+ * e.g. `Chrome on Windows`. Unknown clients are named after their first
+ * product token, e.g. `curl`.
+ */
+export function getUserAgentFamily(userAgent: string): string {
+  const browser =
+    browserPatterns.find(([, pattern]) => pattern.test(userAgent))?.[0] ??
+    userAgent.trim().split(/[\s/]/)[0]
+  const os = osPatterns.find(([, pattern]) => pattern.test(userAgent))?.[0]
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+/**
+ * Compare the metadata a session was bound to with the current request.
+ * Values missing on either side are not compared.
+ */
+export function detectSessionAnomalies(
+  session: { ipAddress?: string; userAgent?: string },
+  request: { ipAddress?: string; userAgent?: string },
+  prefixes: { ipv4Prefix: number; ipv6Prefix: number },
+): KenmonSessionAnomaly[] {
+  const anomalies: KenmonSessionAnomaly[] = []
+
+  if (session.ipAddress && request.ipAddress) {
+    const previous = getIpNetwork(session.ipAddress, prefixes)
+    const current = getIpNetwork(request.ipAddress, prefixes)
+    const changed =
+      previous && current
+        ? previous !== current
+        : session.ipAddress !== request.ipAddress
+    if (changed) {
+      anomalies.push({
+        type: 'ip-address',
+        previous: session.ipAddress,
+        current: request.ipAddress,
+      })
+    }
+  }
+
+  if (
+    session.userAgent &&
+    request.userAgent &&
+    getUserAgentFamily(session.userAgent) !==
+      getUserAgentFamily(request.userAgent)
+  ) {
+    anomalies.push({
+      type: 'user-agent',
+      previous: session.userAgent,
+      current: request.userAgent,
+    })
+  }
+
+  return anomalies
+}
@@ -1,3 +1,5 @@
+import type { KenmonSessionAnomaly } from './types'
+
 export class KenmonError extends Error {
   constructor(message: string) {
     super(message)
@@ -46,10 +48,24 @@ export class KenmonInvalidSessionError extends KenmonError {
   }
 }
 
+export type KenmonSessionExpiredReason =
+  | 'expired'
+  | 'idle-timeout'
+  | 'absolute-timeout'
+
 export class KenmonSessionExpiredError extends KenmonError {
-  constructor() {
-    super('Session expired')
+  readonly reason: KenmonSessionExpiredReason
+
+  constructor(reason: KenmonSessionExpiredReason = 'expired') {
+    const messages: Record<KenmonSessionExpiredReason, string> = {
+      expired: 'Session expired',
+      'idle-timeout': 'Session expired due to inactivity',
+      'absolute-timeout': 'Session reached its maximum lifetime',
+    }
+
+    super(messages[reason])
     this.name = 'KenmonSessionExpiredError'
+    this.reason = reason
     Object.setPrototypeOf(this, KenmonSessionExpiredError.prototype)
   }
 }
@@ -61,3 +77,103 @@ export class KenmonMfaFailedError extends KenmonError {
     Object.setPrototypeOf(this, KenmonMfaFailedError.prototype)
   }
 }
+
+export class KenmonIdentifierAlreadyLinkedError extends KenmonError {
+  constructor(identifier: string) {
+    super(`Identifier ${identifier} is already linked to a user`)
+    this.name = 'KenmonIdentifierAlreadyLinkedError'
+    Object.setPrototypeOf(this, KenmonIdentifierAlreadyLinkedError.prototype)
+  }
+}
+
+export class KenmonIdentifierNotFoundError extends KenmonError {
+  constructor() {
+    super('Identifier not found')
+    this.name = 'KenmonIdentifierNotFoundError'
+    Object.setPrototypeOf(this, KenmonIdentifierNotFoundError.prototype)
+  }
+}
+
+export class KenmonLastIdentifierError extends KenmonError {
+  constructor() {
+    super('Cannot unlink the last identifier of a user')
+    this.name = 'KenmonLastIdentifierError'
+    Object.setPrototypeOf(this, KenmonLastIdentifierError.prototype)
+  }
+}
+
+export class KenmonRateLimitedError extends KenmonError {
+  readonly retryAfter: number // seconds
+
+  constructor(retryAfter: number) {
+    super(`Too many requests, retry after ${retryAfter} seconds`)
+    this.name = 'KenmonRateLimitedError'
+    this.retryAfter = retryAfter
+    Object.setPrototypeOf(this, KenmonRateLimitedError.prototype)
+  }
+}
+
+export class KenmonAccountLockedError extends KenmonError {
+  readonly lockedUntil: Date
+
+  constructor(lockedUntil: Date) {
+    super(`Account is locked until ${lockedUntil.toISOString()}`)
+    this.name = 'KenmonAccountLockedError'
+    this.lockedUntil = lockedUntil
+    Object.setPrototypeOf(this, KenmonAccountLockedError.prototype)
+  }
+}
+
+export class KenmonInvalidRecoveryCodeError extends KenmonError {
+  constructor() {
+    super('Invalid recovery code')
+    this.name = 'KenmonInvalidRecoveryCodeError'
+    Object.setPrototypeOf(this, KenmonInvalidRecoveryCodeError.prototype)
+  }
+}
+
+export class KenmonReauthenticationRequiredError extends KenmonError {
+  readonly authenticatedAt: Date
+  readonly anomalies: KenmonSessionAnomaly[] // empty for maxAuthAge checks
+
+  constructor(authenticatedAt: Date, anomalies: KenmonSessionAnomaly[] = []) {
+    super('Recent authentication required')
+    this.name = 'KenmonReauthenticationRequiredError'
+    this.authenticatedAt = authenticatedAt
+    this.anomalies = anomalies
+    Object.setPrototypeOf(this, KenmonReauthenticationRequiredError.prototype)
+  }
+}
+
+export type KenmonImpersonationErrorReason =
+  | 'self-impersonation'
+  | 'already-impersonating'
+  | 'not-impersonating'
+
+export class KenmonImpersonationError extends KenmonError {
+  readonly reason: KenmonImpersonationErrorReason
+
+  constructor(reason: KenmonImpersonationErrorReason) {
+    const messages: Record<KenmonImpersonationErrorReason, string> = {
+      'self-impersonation': 'Cannot impersonate yourself',
+      'already-impersonating': 'Stop the current impersonation first',
+      'not-impersonating': 'The current session is not an impersonation',
+    }
+
+    super(messages[reason])
+    this.name = 'KenmonImpersonationError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonImpersonationError.prototype)
+  }
+}
+
+export class KenmonSessionAnomalyError extends KenmonError {
+  readonly anomalies: KenmonSessionAnomaly[]
+
+  constructor(anomalies: KenmonSessionAnomaly[]) {
+    super('Session was revoked after a change of network or browser')
+    this.name = 'KenmonSessionAnomalyError'
+    this.anomalies = anomalies
+    Object.setPrototypeOf(this, KenmonSessionAnomalyError.prototype)
+  }
+}
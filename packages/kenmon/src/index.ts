@@ -1,3 +1,15 @@
 export * from './types'
 export * from './errors'
 export { KenmonAuthService } from './auth'
+export { KenmonRateLimiter, KenmonMemoryRateLimitStorage } from './rateLimit'
+export { generateSignature } from './signature'
+export { getIpNetwork, getUserAgentFamily } from './binding'
+export {
+  KenmonSecurityNotifier,
+  type KenmonNotificationsConfig,
+} from './notifications'
+export {
+  KenmonMemoryStorage,
+  type KenmonMemoryUser,
+  type KenmonMemoryEmailOTP,
+} from './memoryStorage'
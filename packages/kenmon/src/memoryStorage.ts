@@ -0,0 +1,337 @@
+import crypto from 'crypto'
+import { isAfter } from 'date-fns'
+import {
+  KenmonStorage,
+  KenmonSession,
+  KenmonIdentifier,
+  KenmonUserLockout,
+} from './types'
+import { KenmonIdentifierAlreadyLinkedError } from './errors'
+
+export interface KenmonMemoryUser {
+  id: string
+  mfaEnabled: boolean
+  createdAt: Date
+  updatedAt: Date
+  [key: string]: any // sign up data
+}
+
+// Same shape as KenmonEmailOTP of @kenmon/email-otp-authenticator
+export interface KenmonMemoryEmailOTP {
+  id: string
+  email: string
+  code: string
+  signature: string
+  expiresAt: Date
+  used: boolean
+}
+
+// Sweep expired sessions and OTPs on writes at most this often
+const cleanupInterval = 60 * 1000
+
+/**
+ * In-memory storage for users, identifiers, sessions, recovery codes and
+ * email OTPs.
+ * It also implements KenmonEmailOTPStorage, so one instance can be passed
+ * as both `storage` and `otpStorage`.
+ *
+ * Data is lost on restart and not shared between processes, so use it for
+ * prototypes, tests and single-process tools only.
+ */
+export class KenmonMemoryStorage implements KenmonStorage<KenmonMemoryUser> {
+  private users: Map<string, KenmonMemoryUser> = new Map()
+  private identifiers: Map<
+    string,
+    { userId: string; identifier: KenmonIdentifier }
+  > = new Map() // identifier key -> owner
+  private sessions: Map<string, KenmonSession> = new Map()
+  private lockouts: Map<string, KenmonUserLockout> = new Map()
+  private recoveryCodes: Map<string, Set<string>> = new Map() // userId -> code hashes
+  private otps: Map<string, KenmonMemoryEmailOTP> = new Map()
+  private lastCleanupAt = 0
+
+  // User operations
+  async createUser(
+    identifier: KenmonIdentifier,
+    data: any,
+  ): Promise<KenmonMemoryUser> {
+    this.assertIdentifierAvailable(identifier)
+
+    const now = new Date()
+    const user: KenmonMemoryUser = {
+      ...data,
+      id: crypto.randomUUID(),
+      mfaEnabled: false,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.users.set(user.id, user)
+    this.identifiers.set(this.getIdentifierKey(identifier), {
+      userId: user.id,
+      identifier: { ...identifier },
+    })
+
+    return { ...user }
+  }
+
+  async getUserById(id: string): Promise<KenmonMemoryUser | null> {
+    const user = this.users.get(id)
+    return user ? { ...user } : null
+  }
+
+  async getUserAuthInfoByIdentifier(
+    identifier: KenmonIdentifier,
+  ): Promise<{ userId: string; mfaEnabled: boolean } | null> {
+    const entry = this.identifiers.get(this.getIdentifierKey(identifier))
+    const user = entry && this.users.get(entry.userId)
+    if (!user) return null
+
+    return { userId: user.id, mfaEnabled: user.mfaEnabled }
+  }
+
+  async enableMfa(userId: string): Promise<void> {
+    this.updateUser(userId, { mfaEnabled: true })
+  }
+
+  async disableMfa(userId: string): Promise<void> {
+    this.updateUser(userId, { mfaEnabled: false })
+  }
+
+  // Identifier operations
+  async createUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    this.assertIdentifierAvailable(identifier)
+
+    this.identifiers.set(this.getIdentifierKey(identifier), {
+      userId,
+      identifier: { ...identifier },
+    })
+  }
+
+  async getUserIdentifiers(userId: string): Promise<KenmonIdentifier[]> {
+    // Maps keep insertion order, so identifiers are sorted by creation
+    return [...this.identifiers.values()]
+      .filter((entry) => entry.userId === userId)
+      .map((entry) => ({ ...entry.identifier }))
+  }
+
+  async deleteUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    const key = this.getIdentifierKey(identifier)
+    if (this.identifiers.get(key)?.userId === userId) {
+      this.identifiers.delete(key)
+    }
+  }
+
+  // Session operations
+  async createSession(data: {
+    userId: string
+    tokenHash: string
+    expiresAt: Date
+    mfaEnabled: boolean
+    mfaVerified: boolean
+    ipAddress?: string
+    userAgent?: string
+    impersonatorId?: string
+  }): Promise<KenmonSession> {
+    this.cleanupIfDue()
+
+    const now = new Date()
+    const session: KenmonSession = {
+      id: crypto.randomUUID(),
+      userId: data.userId,
+      tokenHash: data.tokenHash,
+      expiresAt: data.expiresAt,
+      createdAt: now,
+      refreshedAt: now,
+      usedAt: now,
+      authenticatedAt: now,
+      invalidated: false,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+      mfaEnabled: data.mfaEnabled,
+      mfaVerified: data.mfaVerified,
+      impersonatorId: data.impersonatorId,
+    }
+    this.sessions.set(session.id, session)
+
+    return { ...session }
+  }
+
+  async getSessionById(sessionId: string): Promise<KenmonSession | null> {
+    const session = this.sessions.get(sessionId)
+    return session ? { ...session } : null
+  }
+
+  async getUserSessions(
+    userId: string,
+    options?: { includeInvalidated?: boolean },
+  ): Promise<KenmonSession[]> {
+    return [...this.sessions.values()]
+      .filter(
+        (session) =>
+          session.userId === userId &&
+          (options?.includeInvalidated || !session.invalidated),
+      )
+      .map((session) => ({ ...session }))
+  }
+
+  async updateSession(
+    sessionId: string,
+    data: {
+      expiresAt?: Date
+      refreshedAt?: Date
+      usedAt?: Date
+      authenticatedAt?: Date
+      mfaVerified?: boolean
+      ipAddress?: string
+      userAgent?: string
+    },
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (session) {
+      this.sessions.set(sessionId, { ...session, ...data })
+    }
+  }
+
+  async invalidateSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (session) {
+      this.sessions.set(sessionId, {
+        ...session,
+        invalidated: true,
+        invalidatedAt: new Date(),
+      })
+    }
+  }
+
+  async invalidateAllUserSessions(userId: string): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId) {
+        await this.invalidateSession(session.id)
+      }
+    }
+  }
+
+  // Lockout operations
+  async getUserLockout(userId: string): Promise<KenmonUserLockout> {
+    return { ...(this.lockouts.get(userId) ?? { failedAttempts: 0 }) }
+  }
+
+  async incrementFailedAttempts(userId: string): Promise<number> {
+    const lockout = await this.getUserLockout(userId)
+    lockout.failedAttempts++
+    this.lockouts.set(userId, lockout)
+    return lockout.failedAttempts
+  }
+
+  async lockUser(userId: string, lockedUntil: Date): Promise<void> {
+    const lockout = await this.getUserLockout(userId)
+    this.lockouts.set(userId, { ...lockout, lockedUntil })
+  }
+
+  async resetFailedAttempts(userId: string): Promise<void> {
+    this.lockouts.delete(userId)
+  }
+
+  // Recovery code operations
+  async replaceRecoveryCodes(
+    userId: string,
+    codeHashes: string[],
+  ): Promise<void> {
+    this.recoveryCodes.set(userId, new Set(codeHashes))
+  }
+
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<boolean> {
+    return this.recoveryCodes.get(userId)?.delete(codeHash) ?? false
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.recoveryCodes.get(userId)?.size ?? 0
+  }
+
+  // Email OTP operations (KenmonEmailOTPStorage)
+  async createOTP(
+    email: string,
+    code: string,
+    expiresAt: Date,
+    signature: string,
+  ): Promise<KenmonMemoryEmailOTP> {
+    this.cleanupIfDue()
+
+    const otp: KenmonMemoryEmailOTP = {
+      id: crypto.randomUUID(),
+      email,
+      code,
+      signature,
+      expiresAt,
+      used: false,
+    }
+    this.otps.set(otp.id, otp)
+
+    return { ...otp }
+  }
+
+  async getOTPById(id: string): Promise<KenmonMemoryEmailOTP | null> {
+    const otp = this.otps.get(id)
+    return otp ? { ...otp } : null
+  }
+
+  async markOTPAsUsed(id: string): Promise<void> {
+    const otp = this.otps.get(id)
+    if (otp) {
+      this.otps.set(id, { ...otp, used: true })
+    }
+  }
+
+  /**
+   * Delete expired sessions and OTPs. Runs automatically on writes at most
+   * once a minute, call it directly to free memory right away.
+   */
+  deleteExpired(): void {
+    const now = new Date()
+    this.lastCleanupAt = now.getTime()
+
+    for (const [id, session] of this.sessions) {
+      if (isAfter(now, session.expiresAt)) {
+        this.sessions.delete(id)
+      }
+    }
+    for (const [id, otp] of this.otps) {
+      if (isAfter(now, otp.expiresAt)) {
+        this.otps.delete(id)
+      }
+    }
+  }
+
+  private cleanupIfDue() {
+    if (Date.now() - this.lastCleanupAt >= cleanupInterval) {
+      this.deleteExpired()
+    }
+  }
+
+  private updateUser(userId: string, data: Partial<KenmonMemoryUser>) {
+    const user = this.users.get(userId)
+    if (user) {
+      this.users.set(userId, { ...user, ...data, updatedAt: new Date() })
+    }
+  }
+
+  // Identifiers are unique across users, like a unique index on a database
+  private assertIdentifierAvailable(identifier: KenmonIdentifier) {
+    if (this.identifiers.has(this.getIdentifierKey(identifier))) {
+      throw new KenmonIdentifierAlreadyLinkedError(identifier.value)
+    }
+  }
+
+  private getIdentifierKey(identifier: KenmonIdentifier): string {
+    return `${identifier.type}:${identifier.value}`
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  KenmonMailer,
+  KenmonSecurityEvent,
+  KenmonSecurityNotification,
+} from './types'
+
+export interface KenmonNotificationsConfig {
+  mailer: KenmonMailer
+  emailFrom: string
+  // Address of the user, skips the notification when undefined
+  getEmail: (userId: string) => Promise<string | undefined>
+  events?: KenmonSecurityEvent[] // default: all events
+  emailSubject?: (notification: KenmonSecurityNotification) => string
+  emailTextContent?: (notification: KenmonSecurityNotification) => string
+  emailHtmlContent?: (notification: KenmonSecurityNotification) => string
+  // Failed notifications never fail the auth operation, report them here
+  onError?: (
+    error: Error,
+    notification: KenmonSecurityNotification,
+  ) => Promise<void> | void
+}
+
+const allSecurityEvents: KenmonSecurityEvent[] = [
+  'new-device-sign-in',
+  'mfa-enabled',
+  'mfa-disabled',
+  'identifier-linked',
+  'all-sessions-revoked',
+]
+
+const defaultSubjects: Record<KenmonSecurityEvent, string> = {
+  'new-device-sign-in': 'New sign in to your account',
+  'mfa-enabled': 'Two-factor authentication was enabled',
+  'mfa-disabled': 'Two-factor authentication was disabled',
+  'identifier-linked': 'A sign in method was added to your account',
+  'all-sessions-revoked': 'Your account was signed out everywhere',
+}
+
+function describeEvent(notification: KenmonSecurityNotification): string {
+  switch (notification.event) {
+    case 'new-device-sign-in':
+      return 'Your account was signed in to from a new device.'
+    case 'mfa-enabled':
+      return 'Two-factor authentication was enabled for your account.'
+    case 'mfa-disabled':
+      return 'Two-factor authentication was disabled for your account.'
+    case 'identifier-linked':
+      return `A new sign in method (${notification.identifier?.type}) was added to your account.`
+    case 'all-sessions-revoked':
+      return 'All sessions of your account were signed out.'
+  }
+}
+
+// Labelled details of the notification, device values come from the request
+function getDetails(notification: KenmonSecurityNotification): string[][] {
+  const details = [['Time', notification.occurredAt.toUTCString()]]
+  if (notification.device?.name) {
+    details.push(['Device', notification.device.name])
+  }
+  if (notification.device?.ipAddress) {
+    details.push(['IP address', notification.device.ipAddress])
+  }
+  return details
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Emails users about security relevant changes of their account.
+ * `KenmonAuthService` creates it from the `notifications` config.
+ */
+export class KenmonSecurityNotifier {
+  private mailer: KenmonMailer
+  private emailFrom: string
+  private getEmail: (userId: string) => Promise<string | undefined>
+  private events: KenmonSecurityEvent[]
+  private emailSubject: (notification: KenmonSecurityNotification) => string
+  private emailTextContent: (notification: KenmonSecurityNotification) => string
+  private emailHtmlContent: (notification: KenmonSecurityNotification) => string
+  private onError?: (
+    error: Error,
+    notification: KenmonSecurityNotification,
+  ) => Promise<void> | void
+
+  constructor(config: KenmonNotificationsConfig) {
+    this.mailer = config.mailer
+    this.emailFrom = config.emailFrom
+    this.getEmail = config.getEmail
+    this.events = config.events ?? allSecurityEvents
+    this.onError = config.onError
+
+    // Set default email subject
+    this.emailSubject =
+      config.emailSubject ??
+      ((notification: KenmonSecurityNotification) => {
+        return defaultSubjects[notification.event]
+      })
+
+    // Set default text content
+    this.emailTextContent =
+      config.emailTextContent ??
+      ((notification: KenmonSecurityNotification) => {
+        const details = getDetails(notification)
+          .map(([label, value]) => `${label}: ${value}`)
+          .join('\n')
+        return `${describeEvent(notification)}
+
+${details}
+
+If this wasn't you, secure your account right away.`
+      })
+
+    // Set default HTML content, values are escaped since the user agent is
+    // sent by the client
+    this.emailHtmlContent =
+      config.emailHtmlContent ??
+      ((notification: KenmonSecurityNotification) => {
+        const details = getDetails(notification)
+          .map(
+            ([label, value]) =>
+              `<li><strong>${label}:</strong> ${escapeHtml(value)}</li>`,
+          )
+          .join('\n    ')
+        return `
+<div>
+  <p>${escapeHtml(describeEvent(notification))}</p>
+  <ul>
+    ${details}
+  </ul>
+  <p style="margin-top: 16px;">If this wasn't you, secure your account right away.</p>
+</div>
+      `.trim()
+      })
+  }
+
+  isEnabled(event: KenmonSecurityEvent): boolean {
+    return this.events.includes(event)
+  }
+
+  async notify(notification: KenmonSecurityNotification): Promise<void> {
+    if (!this.isEnabled(notification.event)) {
+      return
+    }
+
+    try {
+      const email = await this.getEmail(notification.userId)
+      if (!email) {
+        return
+      }
+
+      await this.mailer.sendEmail({
+        from: this.emailFrom,
+        to: email,
+        subject: this.emailSubject(notification),
+        textContent: this.emailTextContent(notification),
+        htmlContent: this.emailHtmlContent(notification),
+      })
+    } catch (error) {
+      await this.onError?.(error as Error, notification)
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { addSeconds, differenceInSeconds, isAfter } from 'date-fns'
+import { KenmonRateLimitStorage, KenmonReturnType } from './types'
+import { KenmonRateLimitedError } from './errors'
+
+// Prune expired windows once this many keys are tracked
+const memoryStorageSweepThreshold = 10000
+
+/**
+ * In-memory rate limit storage. Counters are not shared between processes,
+ * so use it for single instance servers, development and tests.
+ */
+export class KenmonMemoryRateLimitStorage implements KenmonRateLimitStorage {
+  private windows: Map<string, { count: number; resetAt: Date }> = new Map()
+
+  async increment(
+    key: string,
+    window: number,
+  ): Promise<{ count: number; resetAt: Date }> {
+    const now = new Date()
+    if (this.windows.size >= memoryStorageSweepThreshold) {
+      this.sweep(now)
+    }
+
+    const current = this.windows.get(key)
+    if (!current || !isAfter(current.resetAt, now)) {
+      const started = { count: 1, resetAt: addSeconds(now, window) }
+      this.windows.set(key, started)
+      return { ...started }
+    }
+
+    current.count++
+    return { ...current }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key)
+  }
+
+  private sweep(now: Date) {
+    for (const [key, { resetAt }] of this.windows) {
+      if (!isAfter(resetAt, now)) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+export interface KenmonRateLimiterConfig {
+  limit: number // max hits per window
+  window: number // seconds
+  storage?: KenmonRateLimitStorage // default: KenmonMemoryRateLimitStorage
+}
+
+/**
+ * Fixed window rate limiter.
+ */
+export class KenmonRateLimiter {
+  limit: number
+  window: number
+  storage: KenmonRateLimitStorage
+
+  constructor(config: KenmonRateLimiterConfig) {
+    this.limit = config.limit
+    this.window = config.window
+    this.storage = config.storage ?? new KenmonMemoryRateLimitStorage()
+  }
+
+  /**
+   * Count a hit for every key (e.g. `sign-in:ip:…` and `sign-in:identifier:…`)
+   * and fail with KenmonRateLimitedError if any of them is over the limit.
+   * Every key is counted even if an earlier one is limited, so switching one
+   * dimension (e.g. the IP address) does not reset the others.
+   */
+  async consume(keys: string | string[]): Promise<KenmonReturnType<void>> {
+    const now = new Date()
+    let retryAfter = 0
+
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      const { count, resetAt } = await this.storage.increment(key, this.window)
+      if (count > this.limit) {
+        retryAfter = Math.max(
+          retryAfter,
+          Math.max(
+            1,
+            differenceInSeconds(resetAt, now, { roundingMethod: 'ceil' }),
+          ),
+        )
+      }
+    }
+
+    if (retryAfter > 0) {
+      return { success: false, error: new KenmonRateLimitedError(retryAfter) }
+    }
+
+    return { success: true, data: undefined }
+  }
+
+  async reset(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      await this.storage.reset(key)
+    }
+  }
+}
@@ -59,8 +59,9 @@ const ANIMALS = [
  * Generates a random, human-readable signature.
  * The signature follows the pattern: Adverb + Adjective + Animal (e.g., "Quickly Happy Elephant")
  *
- * This signature helps users verify that the OTP email they received matches
- * their authentication request, preventing phishing and reducing confusion.
+ * This signature helps users verify that the email they received (OTP code,
+ * magic link, etc.) matches their authentication request, preventing phishing
+ * and reducing confusion.
  *
  * @returns A random human-readable signature string
  *
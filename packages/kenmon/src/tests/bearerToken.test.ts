@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonSessionNotFoundError,
+  KenmonInvalidSessionError,
+  KenmonMfaFailedError,
+} from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('Bearer tokens', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+
+  beforeEach(() => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+    })
+  })
+
+  describe('Issuing', () => {
+    it('should return the session token from signIn', async () => {
+      await storage.createUser(defaultTestIdentifier, {})
+
+      const result = await authService.signIn(defaultTestIdentifier)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.sessionToken).toBe(
+          await adapter.getCookie('session'),
+        )
+      }
+    })
+
+    it('should return the session token from signUp', async () => {
+      const result = await authService.signUp(defaultTestIdentifier, {})
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        const decoded = jwt.verify(result.data.sessionToken, testSecret) as {
+          sessionId: string
+        }
+        const session = await storage.getSessionById(decoded.sessionId)
+        expect(session?.userId).toBe(result.data.userId)
+      }
+    })
+
+    it('should not set cookie when setCookie is false', async () => {
+      const result = await authService.signUp(
+        defaultTestIdentifier,
+        {},
+        { setCookie: false },
+      )
+
+      expect(result.success).toBe(true)
+      expect(adapter.hasCookie('session')).toBe(false)
+    })
+  })
+
+  describe('Verification', () => {
+    it('should verify session from Authorization header', async () => {
+      const signUpResult = await authService.signUp(
+        defaultTestIdentifier,
+        {},
+        { setCookie: false },
+      )
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      adapter.setHeader(
+        'Authorization',
+        `Bearer ${signUpResult.data.sessionToken}`,
+      )
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.userId).toBe(signUpResult.data.userId)
+      }
+    })
+
+    it('should ignore non-bearer Authorization header', async () => {
+      adapter.setHeader('Authorization', 'Basic dXNlcjpwYXNz')
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonSessionNotFoundError)
+      }
+    })
+
+    it('should reject invalid bearer token', async () => {
+      adapter.setHeader('Authorization', 'Bearer invalid-jwt-token')
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+    })
+
+    it('should apply MFA check to bearer sessions', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      await storage.enableMfa(user.id)
+      const signInResult = await authService.signIn(defaultTestIdentifier, {
+        setCookie: false,
+      })
+      if (!signInResult.success) throw new Error('Setup failed')
+
+      adapter.setHeader(
+        'Authorization',
+        `Bearer ${signInResult.data.sessionToken}`,
+      )
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+    })
+
+    it('should prefer session cookie over Authorization header', async () => {
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      adapter.setHeader('Authorization', 'Bearer invalid-jwt-token')
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(true)
+    })
+  })
+
+  describe('Refresh and Sign Out', () => {
+    it('should refresh bearer session without setting cookie', async () => {
+      const signUpResult = await authService.signUp(
+        defaultTestIdentifier,
+        {},
+        { setCookie: false },
+      )
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      adapter.setHeader(
+        'Authorization',
+        `Bearer ${signUpResult.data.sessionToken}`,
+      )
+
+      const result = await authService.refreshSession()
+      expect(result.success).toBe(true)
+      expect(adapter.hasCookie('session')).toBe(false)
+    })
+
+    it('should invalidate bearer session on signOut', async () => {
+      const signUpResult = await authService.signUp(
+        defaultTestIdentifier,
+        {},
+        { setCookie: false },
+      )
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      adapter.setHeader(
+        'Authorization',
+        `Bearer ${signUpResult.data.sessionToken}`,
+      )
+
+      await authService.signOut()
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+    })
+  })
+})
@@ -7,6 +7,15 @@ import {
   KenmonSessionNotFoundError,
   KenmonInvalidSessionError,
   KenmonSessionExpiredError,
+  KenmonIdentifierAlreadyLinkedError,
+  KenmonIdentifierNotFoundError,
+  KenmonLastIdentifierError,
+  KenmonRateLimitedError,
+  KenmonAccountLockedError,
+  KenmonInvalidRecoveryCodeError,
+  KenmonReauthenticationRequiredError,
+  KenmonImpersonationError,
+  KenmonSessionAnomalyError,
 } from '../errors'
 
 describe('Error Classes', () => {
@@ -79,6 +88,124 @@ describe('Error Classes', () => {
       expect(error.name).toBe('KenmonSessionExpiredError')
       expect(error instanceof KenmonError).toBe(true)
       expect(error instanceof KenmonSessionExpiredError).toBe(true)
+      expect(error.reason).toBe('expired')
+    })
+
+    it('should create error with reason', () => {
+      const error = new KenmonSessionExpiredError('idle-timeout')
+      expect(error.message).toBe('Session expired due to inactivity')
+      expect(error.reason).toBe('idle-timeout')
+    })
+  })
+
+  describe('KenmonIdentifierAlreadyLinkedError', () => {
+    it('should create error with identifier in message', () => {
+      const error = new KenmonIdentifierAlreadyLinkedError('test@example.com')
+      expect(error.message).toBe(
+        'Identifier test@example.com is already linked to a user',
+      )
+      expect(error.name).toBe('KenmonIdentifierAlreadyLinkedError')
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonIdentifierAlreadyLinkedError).toBe(true)
+    })
+  })
+
+  describe('KenmonIdentifierNotFoundError', () => {
+    it('should create error with default message', () => {
+      const error = new KenmonIdentifierNotFoundError()
+      expect(error.message).toBe('Identifier not found')
+      expect(error.name).toBe('KenmonIdentifierNotFoundError')
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonIdentifierNotFoundError).toBe(true)
+    })
+  })
+
+  describe('KenmonLastIdentifierError', () => {
+    it('should create error with default message', () => {
+      const error = new KenmonLastIdentifierError()
+      expect(error.message).toBe('Cannot unlink the last identifier of a user')
+      expect(error.name).toBe('KenmonLastIdentifierError')
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonLastIdentifierError).toBe(true)
+    })
+  })
+
+  describe('KenmonRateLimitedError', () => {
+    it('should create error with retryAfter', () => {
+      const error = new KenmonRateLimitedError(30)
+      expect(error.message).toBe('Too many requests, retry after 30 seconds')
+      expect(error.name).toBe('KenmonRateLimitedError')
+      expect(error.retryAfter).toBe(30)
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonRateLimitedError).toBe(true)
+    })
+  })
+
+  describe('KenmonAccountLockedError', () => {
+    it('should create error with lockedUntil', () => {
+      const lockedUntil = new Date('2025-01-01T00:15:00Z')
+      const error = new KenmonAccountLockedError(lockedUntil)
+      expect(error.message).toBe(
+        'Account is locked until 2025-01-01T00:15:00.000Z',
+      )
+      expect(error.name).toBe('KenmonAccountLockedError')
+      expect(error.lockedUntil).toBe(lockedUntil)
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonAccountLockedError).toBe(true)
+    })
+  })
+
+  describe('KenmonInvalidRecoveryCodeError', () => {
+    it('should create error with default message', () => {
+      const error = new KenmonInvalidRecoveryCodeError()
+      expect(error.message).toBe('Invalid recovery code')
+      expect(error.name).toBe('KenmonInvalidRecoveryCodeError')
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonInvalidRecoveryCodeError).toBe(true)
+    })
+  })
+
+  describe('KenmonReauthenticationRequiredError', () => {
+    it('should create error with authenticatedAt', () => {
+      const authenticatedAt = new Date('2025-01-01T00:00:00Z')
+      const error = new KenmonReauthenticationRequiredError(authenticatedAt)
+      expect(error.message).toBe('Recent authentication required')
+      expect(error.name).toBe('KenmonReauthenticationRequiredError')
+      expect(error.authenticatedAt).toBe(authenticatedAt)
+      expect(error.anomalies).toEqual([])
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonReauthenticationRequiredError).toBe(true)
+    })
+  })
+
+  describe('KenmonImpersonationError', () => {
+    it('should create error with reason', () => {
+      const error = new KenmonImpersonationError('not-impersonating')
+      expect(error.message).toBe('The current session is not an impersonation')
+      expect(error.name).toBe('KenmonImpersonationError')
+      expect(error.reason).toBe('not-impersonating')
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonImpersonationError).toBe(true)
+    })
+  })
+
+  describe('KenmonSessionAnomalyError', () => {
+    it('should create error with anomalies', () => {
+      const anomalies = [
+        {
+          type: 'ip-address' as const,
+          previous: '192.0.2.1',
+          current: '198.51.100.1',
+        },
+      ]
+      const error = new KenmonSessionAnomalyError(anomalies)
+      expect(error.message).toBe(
+        'Session was revoked after a change of network or browser',
+      )
+      expect(error.name).toBe('KenmonSessionAnomalyError')
+      expect(error.anomalies).toEqual(anomalies)
+      expect(error instanceof KenmonError).toBe(true)
+      expect(error instanceof KenmonSessionAnomalyError).toBe(true)
     })
   })
 })
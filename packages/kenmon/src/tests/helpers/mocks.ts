@@ -3,6 +3,9 @@ import {
   KenmonAdapter,
   KenmonSession,
   KenmonIdentifier,
+  KenmonUserLockout,
+  KenmonMailer,
+  KenmonSendEmailParams,
   CookieOptions,
 } from '../../types'
 
@@ -18,7 +21,12 @@ export interface MockUser {
 export class MockStorage implements KenmonStorage<MockUser> {
   private users: Map<string, MockUser> = new Map()
   private sessions: Map<string, KenmonSession> = new Map()
-  private identifiers: Map<string, string> = new Map() // identifier key -> userId
+  private identifiers: Map<
+    string,
+    { userId: string; identifier: KenmonIdentifier }
+  > = new Map() // identifier key -> userId
+  private lockouts: Map<string, KenmonUserLockout> = new Map()
+  private recoveryCodes: Map<string, Set<string>> = new Map() // userId -> code hashes
 
   private getIdentifierKey(identifier: KenmonIdentifier): string {
     return `${identifier.type}:${identifier.value}`
@@ -34,7 +42,10 @@ export class MockStorage implements KenmonStorage<MockUser> {
       ...data,
     }
     this.users.set(userId, user)
-    this.identifiers.set(this.getIdentifierKey(identifier), userId)
+    this.identifiers.set(this.getIdentifierKey(identifier), {
+      userId,
+      identifier,
+    })
     return user
   }
 
@@ -45,19 +56,45 @@ export class MockStorage implements KenmonStorage<MockUser> {
   async getUserByIdentifier(
     identifier: KenmonIdentifier,
   ): Promise<MockUser | null> {
-    const userId = this.identifiers.get(this.getIdentifierKey(identifier))
-    if (!userId) return null
-    return this.getUserById(userId)
+    const entry = this.identifiers.get(this.getIdentifierKey(identifier))
+    if (!entry) return null
+    return this.getUserById(entry.userId)
   }
 
   async getUserAuthInfoByIdentifier(
     identifier: KenmonIdentifier,
   ): Promise<{ userId: string; mfaEnabled: boolean } | null> {
-    const userId = this.identifiers.get(this.getIdentifierKey(identifier))
-    if (!userId) return null
-    const user = this.users.get(userId)
+    const entry = this.identifiers.get(this.getIdentifierKey(identifier))
+    if (!entry) return null
+    const user = this.users.get(entry.userId)
     if (!user) return null
-    return { userId, mfaEnabled: user.mfaEnabled }
+    return { userId: entry.userId, mfaEnabled: user.mfaEnabled }
+  }
+
+  async createUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    this.identifiers.set(this.getIdentifierKey(identifier), {
+      userId,
+      identifier,
+    })
+  }
+
+  async getUserIdentifiers(userId: string): Promise<KenmonIdentifier[]> {
+    return [...this.identifiers.values()]
+      .filter((entry) => entry.userId === userId)
+      .map((entry) => entry.identifier)
+  }
+
+  async deleteUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void> {
+    const key = this.getIdentifierKey(identifier)
+    if (this.identifiers.get(key)?.userId === userId) {
+      this.identifiers.delete(key)
+    }
   }
 
   async enableMfa(userId: string): Promise<void> {
@@ -76,36 +113,40 @@ export class MockStorage implements KenmonStorage<MockUser> {
 
   async createSession({
     userId,
-    token,
+    tokenHash,
     expiresAt,
     mfaVerified,
     mfaEnabled,
     ipAddress,
     userAgent,
+    impersonatorId,
   }: {
     userId: string
-    token: string
+    tokenHash: string
     expiresAt: Date
     mfaVerified: boolean
     mfaEnabled: boolean
     ipAddress?: string
     userAgent?: string
+    impersonatorId?: string
   }): Promise<KenmonSession> {
     const sessionId = `session-${Date.now()}-${Math.random()}`
     const now = new Date()
     const session: KenmonSession = {
       id: sessionId,
       userId,
-      token,
+      tokenHash,
       expiresAt,
       createdAt: now,
       refreshedAt: now,
       usedAt: now,
+      authenticatedAt: now,
       invalidated: false,
       ipAddress,
       userAgent,
       mfaVerified,
       mfaEnabled,
+      impersonatorId,
     }
     this.sessions.set(sessionId, session)
     return session
@@ -115,13 +156,27 @@ export class MockStorage implements KenmonStorage<MockUser> {
     return this.sessions.get(sessionId) || null
   }
 
+  async getUserSessions(
+    userId: string,
+    options?: { includeInvalidated?: boolean },
+  ): Promise<KenmonSession[]> {
+    return [...this.sessions.values()].filter(
+      (session) =>
+        session.userId === userId &&
+        (options?.includeInvalidated || !session.invalidated),
+    )
+  }
+
   async updateSession(
     sessionId: string,
     data: {
       expiresAt?: Date
       refreshedAt?: Date
       usedAt?: Date
+      authenticatedAt?: Date
       mfaVerified?: boolean
+      ipAddress?: string
+      userAgent?: string
     },
   ): Promise<void> {
     const session = this.sessions.get(sessionId)
@@ -148,11 +203,51 @@ export class MockStorage implements KenmonStorage<MockUser> {
     }
   }
 
+  async getUserLockout(userId: string): Promise<KenmonUserLockout> {
+    return { ...(this.lockouts.get(userId) ?? { failedAttempts: 0 }) }
+  }
+
+  async incrementFailedAttempts(userId: string): Promise<number> {
+    const lockout = this.lockouts.get(userId) ?? { failedAttempts: 0 }
+    lockout.failedAttempts++
+    this.lockouts.set(userId, lockout)
+    return lockout.failedAttempts
+  }
+
+  async lockUser(userId: string, lockedUntil: Date): Promise<void> {
+    const lockout = this.lockouts.get(userId) ?? { failedAttempts: 0 }
+    this.lockouts.set(userId, { ...lockout, lockedUntil })
+  }
+
+  async resetFailedAttempts(userId: string): Promise<void> {
+    this.lockouts.delete(userId)
+  }
+
+  async replaceRecoveryCodes(
+    userId: string,
+    codeHashes: string[],
+  ): Promise<void> {
+    this.recoveryCodes.set(userId, new Set(codeHashes))
+  }
+
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<boolean> {
+    return this.recoveryCodes.get(userId)?.delete(codeHash) ?? false
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.recoveryCodes.get(userId)?.size ?? 0
+  }
+
   // Helper methods for testing
   clear() {
     this.users.clear()
     this.sessions.clear()
     this.identifiers.clear()
+    this.lockouts.clear()
+    this.recoveryCodes.clear()
   }
 
   updateUser(userId: string, data: Partial<MockUser>): void {
@@ -167,6 +262,7 @@ export class MockStorage implements KenmonStorage<MockUser> {
 export class MockAdapter implements KenmonAdapter {
   private cookies: Map<string, string> = new Map()
   private cookieOptions: Map<string, CookieOptions> = new Map()
+  private headers: Map<string, string> = new Map()
 
   async setCookie(
     name: string,
@@ -188,10 +284,19 @@ export class MockAdapter implements KenmonAdapter {
     this.cookieOptions.delete(name)
   }
 
+  async getHeader(name: string): Promise<string | undefined> {
+    return this.headers.get(name.toLowerCase())
+  }
+
   // Helper methods for testing
   clear() {
     this.cookies.clear()
     this.cookieOptions.clear()
+    this.headers.clear()
+  }
+
+  setHeader(name: string, value: string): void {
+    this.headers.set(name.toLowerCase(), value)
   }
 
   hasCookie(name: string): boolean {
@@ -202,3 +307,12 @@ export class MockAdapter implements KenmonAdapter {
     return this.cookieOptions.get(name)
   }
 }
+
+// Mock Mailer Implementation
+export class MockMailer extends KenmonMailer {
+  sentEmails: KenmonSendEmailParams[] = []
+
+  async sendEmail(params: KenmonSendEmailParams): Promise<void> {
+    this.sentEmails.push(params)
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonError, KenmonSessionNotFoundError } from '../errors'
+import { KenmonHooks, KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('hooks', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+
+  const createAuthService = (hooks: KenmonHooks) =>
+    new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      hooks,
+    })
+
+  beforeEach(() => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+  })
+
+  describe('signIn', () => {
+    it('should call before and after hooks with metadata', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const beforeSignIn = vi.fn(async () => {})
+      const afterSignIn = vi.fn(async () => {})
+      const authService = createAuthService({ beforeSignIn, afterSignIn })
+
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+      })
+
+      expect(beforeSignIn).toHaveBeenCalledWith({
+        identifier: defaultTestIdentifier,
+        userId: user.id,
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+      })
+      expect(afterSignIn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: user.id,
+          session: expect.objectContaining({ userId: user.id }),
+        }),
+      )
+    })
+
+    it('should abort sign in when before hook rejects', async () => {
+      await storage.createUser(defaultTestIdentifier, {})
+      const error = new KenmonError('Account suspended')
+      const afterSignIn = vi.fn(async () => {})
+      const authService = createAuthService({
+        beforeSignIn: async () => ({ success: false, error }),
+        afterSignIn,
+      })
+
+      const result = await authService.signIn(defaultTestIdentifier)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe(error)
+      }
+      expect(adapter.hasCookie('session')).toBe(false)
+      expect(afterSignIn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('signUp', () => {
+    it('should call before and after hooks with user data', async () => {
+      const beforeSignUp = vi.fn(async () => {})
+      const afterSignUp = vi.fn(async () => {})
+      const authService = createAuthService({ beforeSignUp, afterSignUp })
+
+      const result = await authService.signUp(
+        defaultTestIdentifier,
+        { name: 'Test' },
+        { initialUserData: { plan: 'free' } },
+      )
+      if (!result.success) throw new Error('Setup failed')
+
+      expect(beforeSignUp).toHaveBeenCalledWith(
+        expect.objectContaining({
+          identifier: defaultTestIdentifier,
+          data: { name: 'Test', plan: 'free' },
+        }),
+      )
+      expect(afterSignUp).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: result.data.userId,
+          session: expect.objectContaining({ userId: result.data.userId }),
+        }),
+      )
+    })
+
+    it('should not create user when before hook rejects', async () => {
+      const authService = createAuthService({
+        beforeSignUp: async () => ({
+          success: false,
+          error: new KenmonError('Sign up closed'),
+        }),
+      })
+
+      const result = await authService.signUp(defaultTestIdentifier, {})
+
+      expect(result.success).toBe(false)
+      expect(
+        await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier),
+      ).toBeNull()
+    })
+  })
+
+  describe('signOut', () => {
+    it('should call before and after hooks for a valid session', async () => {
+      const beforeSignOut = vi.fn(async () => {})
+      const afterSignOut = vi.fn(async () => {})
+      const authService = createAuthService({ beforeSignOut, afterSignOut })
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      await authService.signOut({ allSessions: true })
+
+      const expectedParams = expect.objectContaining({
+        userId: signUpResult.data.userId,
+        allSessions: true,
+      })
+      expect(beforeSignOut).toHaveBeenCalledWith(expectedParams)
+      expect(afterSignOut).toHaveBeenCalledWith(expectedParams)
+    })
+
+    it('should not call hooks without a session', async () => {
+      const afterSignOut = vi.fn(async () => {})
+      const authService = createAuthService({ afterSignOut })
+
+      await authService.signOut()
+
+      expect(afterSignOut).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('refreshSession', () => {
+    it('should call after hook with refreshed session', async () => {
+      const afterRefreshSession = vi.fn(async () => {})
+      const authService = createAuthService({ afterRefreshSession })
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      await authService.refreshSession()
+
+      expect(afterRefreshSession).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: signUpResult.data.userId }),
+      )
+    })
+
+    it('should not refresh when before hook rejects', async () => {
+      const authService = createAuthService({
+        beforeRefreshSession: async () => ({
+          success: false,
+          error: new KenmonError('Refresh denied'),
+        }),
+      })
+      await authService.signUp(defaultTestIdentifier, {})
+      const verifyResult = await authService.verifySession()
+      if (!verifyResult.success) throw new Error('Setup failed')
+
+      const result = await authService.refreshSession()
+
+      expect(result.success).toBe(false)
+      const storedSession = await storage.getSessionById(verifyResult.data.id)
+      expect(storedSession?.refreshedAt).toEqual(verifyResult.data.refreshedAt)
+    })
+  })
+
+  describe('verifySession', () => {
+    it('should call failure hook with error', async () => {
+      const onVerifySessionFailure = vi.fn(async () => {})
+      const authService = createAuthService({ onVerifySessionFailure })
+
+      await authService.verifySession()
+
+      expect(onVerifySessionFailure).toHaveBeenCalledWith({
+        error: expect.any(KenmonSessionNotFoundError),
+      })
+    })
+
+    it('should not call failure hook for valid session', async () => {
+      const onVerifySessionFailure = vi.fn(async () => {})
+      const authService = createAuthService({ onVerifySessionFailure })
+      await authService.signUp(defaultTestIdentifier, {})
+
+      await authService.verifySession()
+
+      expect(onVerifySessionFailure).not.toHaveBeenCalled()
+    })
+
+    it('should not call failure hook for signOut without session', async () => {
+      const onVerifySessionFailure = vi.fn(async () => {})
+      const authService = createAuthService({ onVerifySessionFailure })
+
+      await authService.signOut()
+      await authService.refreshSession()
+
+      expect(onVerifySessionFailure).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonIdentifierAlreadyLinkedError,
+  KenmonIdentifierNotFoundError,
+  KenmonLastIdentifierError,
+} from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const googleTestIdentifier: KenmonIdentifier = {
+  type: 'google-oauth',
+  value: '1234567890',
+  data: { email: 'test@example.com' },
+}
+
+const testSecret = 'test-secret'
+
+describe('identifiers', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+  })
+
+  describe('linkIdentifier()', () => {
+    it('should link a new identifier', async () => {
+      const result = await authService.linkIdentifier(
+        userId,
+        googleTestIdentifier,
+      )
+
+      expect(result.success).toBe(true)
+      expect(await authService.listIdentifiers(userId)).toEqual([
+        defaultTestIdentifier,
+        googleTestIdentifier,
+      ])
+    })
+
+    it('should allow signing in with the linked identifier', async () => {
+      await authService.linkIdentifier(userId, googleTestIdentifier)
+
+      const result = await authService.signIn(googleTestIdentifier)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.userId).toBe(userId)
+      }
+    })
+
+    it('should reject identifier linked to another user', async () => {
+      await storage.createUser(googleTestIdentifier, {})
+
+      const result = await authService.linkIdentifier(
+        userId,
+        googleTestIdentifier,
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonIdentifierAlreadyLinkedError)
+      }
+    })
+
+    it('should reject identifier already linked to the same user', async () => {
+      const result = await authService.linkIdentifier(
+        userId,
+        defaultTestIdentifier,
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonIdentifierAlreadyLinkedError)
+      }
+    })
+  })
+
+  describe('unlinkIdentifier()', () => {
+    it('should unlink an identifier', async () => {
+      await authService.linkIdentifier(userId, googleTestIdentifier)
+
+      const result = await authService.unlinkIdentifier(
+        userId,
+        defaultTestIdentifier,
+      )
+
+      expect(result.success).toBe(true)
+      expect(await authService.listIdentifiers(userId)).toEqual([
+        googleTestIdentifier,
+      ])
+      expect(
+        await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier),
+      ).toBeNull()
+    })
+
+    it('should not unlink the last identifier', async () => {
+      const result = await authService.unlinkIdentifier(
+        userId,
+        defaultTestIdentifier,
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonLastIdentifierError)
+      }
+      expect(await authService.listIdentifiers(userId)).toHaveLength(1)
+    })
+
+    it('should not unlink identifier of another user', async () => {
+      await authService.linkIdentifier(userId, googleTestIdentifier)
+      const otherIdentifier = { type: 'email-otp', value: 'other@example.com' }
+      await storage.createUser(otherIdentifier, {})
+
+      const result = await authService.unlinkIdentifier(userId, otherIdentifier)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonIdentifierNotFoundError)
+      }
+      expect(
+        await storage.getUserAuthInfoByIdentifier(otherIdentifier),
+      ).not.toBeNull()
+    })
+  })
+})
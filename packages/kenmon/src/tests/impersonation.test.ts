@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonImpersonationError,
+  KenmonInvalidSessionError,
+  KenmonMfaFailedError,
+  KenmonSessionExpiredError,
+  KenmonUserNotFoundError,
+} from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const adminIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'admin@example.com',
+}
+
+const userIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'user@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('impersonation', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let adminId: string
+  let userId: string
+
+  const expectImpersonationError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonImpersonationError)
+    expect((result.error as KenmonImpersonationError).reason).toBe(reason)
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      impersonation: { ttl: 30 * 60 },
+    })
+
+    adminId = (await storage.createUser(adminIdentifier, {})).id
+    userId = (await storage.createUser(userIdentifier, {})).id
+    await authService.signIn(adminIdentifier)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('impersonate()', () => {
+    it('should create a marked session for the target user', async () => {
+      const result = await authService.impersonate(adminId, userId)
+
+      expect(result).toEqual({ success: true, data: {} })
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data.userId).toBe(userId)
+        expect(verifyResult.data.impersonatorId).toBe(adminId)
+        expect(verifyResult.data.expiresAt).toEqual(
+          new Date('2025-01-01T00:30:00Z'),
+        )
+      }
+      expect(adapter.hasCookie('session-impersonator')).toBe(true)
+    })
+
+    it('should not be extended past the impersonation TTL', async () => {
+      await authService.impersonate(adminId, userId)
+
+      vi.setSystemTime(new Date('2025-01-01T00:20:00Z'))
+      await authService.refreshSession()
+      const sessions = await storage.getUserSessions(userId)
+      expect(sessions[0].expiresAt).toEqual(new Date('2025-01-01T00:30:00Z'))
+
+      vi.setSystemTime(new Date('2025-01-01T00:31:00Z'))
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(false)
+      if (!verifyResult.success) {
+        expect(verifyResult.error).toBeInstanceOf(KenmonSessionExpiredError)
+        expect((verifyResult.error as KenmonSessionExpiredError).reason).toBe(
+          'absolute-timeout',
+        )
+      }
+    })
+
+    it('should require the admin session to pass the MFA check', async () => {
+      await authService.enableMfa(adminId)
+      await authService.signIn(adminIdentifier)
+
+      const result = await authService.impersonate(adminId, userId)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+    })
+
+    it('should reject a session of another admin', async () => {
+      const result = await authService.impersonate(userId, adminId)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+    })
+
+    it('should reject unknown target users', async () => {
+      const result = await authService.impersonate(adminId, 'unknown-user')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonUserNotFoundError)
+      }
+    })
+
+    it('should reject impersonating yourself', async () => {
+      expectImpersonationError(
+        await authService.impersonate(adminId, adminId),
+        'self-impersonation',
+      )
+    })
+
+    it('should reject nested impersonation', async () => {
+      const otherId = (
+        await storage.createUser(
+          { type: 'email-otp', value: 'other@example.com' },
+          {},
+        )
+      ).id
+      await authService.impersonate(adminId, userId)
+
+      expectImpersonationError(
+        await authService.impersonate(userId, otherId),
+        'already-impersonating',
+      )
+    })
+
+    it('should return the session token to bearer clients', async () => {
+      const signInResult = await authService.signIn(adminIdentifier, {
+        setCookie: false,
+      })
+      if (!signInResult.success) throw new Error('Setup failed')
+      adapter.clear()
+      adapter.setHeader(
+        'Authorization',
+        `Bearer ${signInResult.data.sessionToken}`,
+      )
+
+      const result = await authService.impersonate(adminId, userId)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.sessionToken).toBeDefined()
+      }
+      expect(adapter.hasCookie('session')).toBe(false)
+      expect(adapter.hasCookie('session-impersonator')).toBe(false)
+    })
+  })
+
+  describe('stopImpersonation()', () => {
+    it('should return to the admin session', async () => {
+      const [adminSession] = await storage.getUserSessions(adminId)
+      await authService.impersonate(adminId, userId)
+      const [impersonationSession] = await storage.getUserSessions(userId)
+
+      const result = await authService.stopImpersonation()
+
+      expect(result).toEqual({ success: true, data: { userId: adminId } })
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data.id).toBe(adminSession.id)
+        expect(verifyResult.data.impersonatorId).toBeUndefined()
+      }
+      expect(
+        (await storage.getSessionById(impersonationSession.id))?.invalidated,
+      ).toBe(true)
+      expect(adapter.hasCookie('session-impersonator')).toBe(false)
+    })
+
+    it('should work after the impersonation session expired', async () => {
+      await authService.impersonate(adminId, userId)
+      vi.setSystemTime(new Date('2025-01-01T00:31:00Z'))
+
+      const result = await authService.stopImpersonation()
+
+      expect(result.success).toBe(true)
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data.userId).toBe(adminId)
+      }
+    })
+
+    it('should sign out when the admin session is gone', async () => {
+      const [adminSession] = await storage.getUserSessions(adminId)
+      await authService.impersonate(adminId, userId)
+      await storage.invalidateSession(adminSession.id)
+
+      const result = await authService.stopImpersonation()
+
+      expect(result.success).toBe(true)
+      expect(adapter.hasCookie('session')).toBe(false)
+    })
+
+    it('should reject sessions which are not impersonations', async () => {
+      expectImpersonationError(
+        await authService.stopImpersonation(),
+        'not-impersonating',
+      )
+    })
+  })
+
+  describe('signOut()', () => {
+    it('should also end the admin session', async () => {
+      const [adminSession] = await storage.getUserSessions(adminId)
+      await authService.impersonate(adminId, userId)
+      const [impersonationSession] = await storage.getUserSessions(userId)
+
+      await authService.signOut()
+
+      expect(
+        (await storage.getSessionById(impersonationSession.id))?.invalidated,
+      ).toBe(true)
+      expect((await storage.getSessionById(adminSession.id))?.invalidated).toBe(
+        true,
+      )
+      expect(adapter.hasCookie('session')).toBe(false)
+      expect(adapter.hasCookie('session-impersonator')).toBe(false)
+      expectImpersonationError(
+        await authService.stopImpersonation(),
+        'not-impersonating',
+      )
+    })
+
+    it('should end the admin session after the impersonation expired', async () => {
+      const [adminSession] = await storage.getUserSessions(adminId)
+      await authService.impersonate(adminId, userId)
+      vi.setSystemTime(new Date('2025-01-01T00:31:00Z'))
+
+      await authService.signOut()
+
+      expect((await storage.getSessionById(adminSession.id))?.invalidated).toBe(
+        true,
+      )
+      expect(adapter.hasCookie('session-impersonator')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonInvalidSessionError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const oldKey = { kid: '2024-01', secret: 'old-secret' }
+const newKey = { kid: '2025-01', secret: 'new-secret' }
+
+describe('keyring', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+
+  beforeEach(() => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+  })
+
+  const createAuthService = (
+    secret: ConstructorParameters<typeof KenmonAuthService>[0]['secret'],
+  ) =>
+    new KenmonAuthService({
+      secret,
+      storage,
+      adapter,
+    })
+
+  it('should sign session tokens with the current key and kid header', async () => {
+    const authService = createAuthService({ current: newKey })
+
+    await authService.signUp(defaultTestIdentifier, {})
+
+    const cookie = await adapter.getCookie('session')
+    const decoded = jwt.decode(cookie!, { complete: true })
+    expect(decoded?.header.kid).toBe(newKey.kid)
+    expect(() => jwt.verify(cookie!, newKey.secret)).not.toThrow()
+  })
+
+  it('should verify tokens signed with a previous key', async () => {
+    await createAuthService({ current: oldKey }).signUp(
+      defaultTestIdentifier,
+      {},
+    )
+    const rotatedAuthService = createAuthService({
+      current: newKey,
+      previous: [oldKey],
+    })
+
+    const result = await rotatedAuthService.verifySession()
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject tokens signed with a removed key', async () => {
+    await createAuthService({ current: oldKey }).signUp(
+      defaultTestIdentifier,
+      {},
+    )
+    const rotatedAuthService = createAuthService({ current: newKey })
+
+    const result = await rotatedAuthService.verifySession()
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+    }
+  })
+
+  it('should only check the key matching the kid header', async () => {
+    await createAuthService({ current: oldKey }).signUp(
+      defaultTestIdentifier,
+      {},
+    )
+    // Same secret under another kid must not verify
+    const rotatedAuthService = createAuthService({
+      current: newKey,
+      previous: [{ kid: 'other', secret: oldKey.secret }],
+    })
+
+    const result = await rotatedAuthService.verifySession()
+
+    expect(result.success).toBe(false)
+  })
+
+  it('should verify tokens signed with a plain string secret after migrating to a keyring', async () => {
+    await createAuthService(oldKey.secret).signUp(defaultTestIdentifier, {})
+    const rotatedAuthService = createAuthService({
+      current: newKey,
+      previous: [oldKey],
+    })
+
+    const result = await rotatedAuthService.verifySession()
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should re-sign cookie with the current key on refresh', async () => {
+    await createAuthService({ current: oldKey }).signUp(
+      defaultTestIdentifier,
+      {},
+    )
+    const rotatedAuthService = createAuthService({
+      current: newKey,
+      previous: [oldKey],
+    })
+
+    const result = await rotatedAuthService.refreshSession()
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.sessionToken).toBeUndefined()
+    }
+
+    const cookie = await adapter.getCookie('session')
+    expect(jwt.decode(cookie!, { complete: true })?.header.kid).toBe(newKey.kid)
+
+    // The old key can be retired now
+    const result2 = await createAuthService({ current: newKey }).verifySession()
+    expect(result2.success).toBe(true)
+  })
+
+  it('should return re-signed token to bearer clients on refresh', async () => {
+    const signUpResult = await createAuthService({ current: oldKey }).signUp(
+      defaultTestIdentifier,
+      {},
+      { setCookie: false },
+    )
+    if (!signUpResult.success) throw new Error('Setup failed')
+    adapter.setHeader(
+      'Authorization',
+      `Bearer ${signUpResult.data.sessionToken}`,
+    )
+    const rotatedAuthService = createAuthService({
+      current: newKey,
+      previous: [oldKey],
+    })
+
+    const result = await rotatedAuthService.refreshSession()
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const decoded = jwt.decode(result.data.sessionToken!, { complete: true })
+      expect(decoded?.header.kid).toBe(newKey.kid)
+    }
+    expect(adapter.hasCookie('session')).toBe(false)
+  })
+})
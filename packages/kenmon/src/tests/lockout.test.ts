@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonAccountLockedError, KenmonMfaFailedError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('account lockout', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  const reportFailures = async (
+    count: number,
+    identifier = defaultTestIdentifier,
+  ) => {
+    for (let i = 0; i < count; i++) {
+      await authService.reportFailedAuthentication(identifier)
+    }
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      lockout: { maxAttempts: 3, duration: 15 * 60 },
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should lock the account after reaching max attempts', async () => {
+    await reportFailures(3)
+
+    const result = await authService.signIn(defaultTestIdentifier)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(KenmonAccountLockedError)
+      expect((result.error as KenmonAccountLockedError).lockedUntil).toEqual(
+        new Date('2025-01-01T00:15:00Z'),
+      )
+    }
+    expect(adapter.hasCookie('session')).toBe(false)
+  })
+
+  it('should not lock the account below max attempts', async () => {
+    await reportFailures(2)
+
+    const result = await authService.signIn(defaultTestIdentifier)
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should count failures across identifiers of the user', async () => {
+    const googleIdentifier = { type: 'google-oauth', value: '1234567890' }
+    await storage.createUserIdentifier(userId, googleIdentifier)
+
+    await reportFailures(2)
+    await reportFailures(1, googleIdentifier)
+
+    const result = await authService.signIn(googleIdentifier)
+    expect(result.success).toBe(false)
+  })
+
+  it('should unlock after the lock duration', async () => {
+    await reportFailures(3)
+
+    vi.setSystemTime(new Date('2025-01-01T00:15:01Z'))
+    const result = await authService.signIn(defaultTestIdentifier)
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should reset failed attempts on successful sign in', async () => {
+    await reportFailures(2)
+    await authService.signIn(defaultTestIdentifier)
+
+    await reportFailures(2)
+
+    expect(await storage.getUserLockout(userId)).toEqual({ failedAttempts: 2 })
+    expect((await authService.signIn(defaultTestIdentifier)).success).toBe(true)
+  })
+
+  it('should not extend the lock while locked', async () => {
+    await reportFailures(3)
+
+    vi.setSystemTime(new Date('2025-01-01T00:10:00Z'))
+    await reportFailures(5)
+
+    const lockout = await storage.getUserLockout(userId)
+    expect(lockout.lockedUntil).toEqual(new Date('2025-01-01T00:15:00Z'))
+  })
+
+  it('should start counting again after the lock passes', async () => {
+    await reportFailures(3)
+
+    vi.setSystemTime(new Date('2025-01-01T00:15:01Z'))
+    await reportFailures(1)
+
+    expect(await storage.getUserLockout(userId)).toEqual({ failedAttempts: 1 })
+  })
+
+  it('should ignore unknown identifiers', async () => {
+    await expect(
+      authService.reportFailedAuthentication({
+        type: 'email-otp',
+        value: 'unknown@example.com',
+      }),
+    ).resolves.toBeUndefined()
+  })
+
+  describe('second factor', () => {
+    const totpIdentifier = () => ({ type: 'totp', value: userId })
+
+    beforeEach(async () => {
+      await authService.enableMfa(userId)
+    })
+
+    it('should lock the account after failed TOTP codes', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      for (let i = 0; i < 3; i++) {
+        await authService.reportFailedMfa(userId)
+      }
+
+      // The code is eventually guessed right
+      const result = await authService.verifyMfa(totpIdentifier())
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonAccountLockedError)
+      }
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(false)
+      if (!verifyResult.success) {
+        expect(verifyResult.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+    })
+
+    it('should not reset failed attempts before the second factor', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      await authService.reportFailedMfa(userId)
+      await authService.reportFailedMfa(userId)
+
+      // Signing in again doesn't give a fresh budget of TOTP attempts
+      await authService.signIn(defaultTestIdentifier)
+      await authService.reportFailedMfa(userId)
+
+      const result = await authService.verifyMfa(totpIdentifier())
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonAccountLockedError)
+      }
+    })
+
+    it('should count identifiers of another user', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyMfa({
+        type: 'totp',
+        value: 'another-user',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+      expect(await storage.getUserLockout(userId)).toEqual({
+        failedAttempts: 1,
+      })
+    })
+
+    it('should reset failed attempts once the second factor passes', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      await authService.reportFailedMfa(userId)
+      await authService.reportFailedMfa(userId)
+
+      const result = await authService.verifyMfa(totpIdentifier())
+
+      expect(result.success).toBe(true)
+      expect(await storage.getUserLockout(userId)).toEqual({
+        failedAttempts: 0,
+      })
+    })
+
+    it('should reset failed attempts after a recovery code', async () => {
+      const [code] = await authService.regenerateRecoveryCodes(userId)
+      await authService.signIn(defaultTestIdentifier)
+      await authService.reportFailedMfa(userId)
+
+      const result = await authService.verifyRecoveryCode(code)
+
+      expect(result.success).toBe(true)
+      expect(await storage.getUserLockout(userId)).toEqual({
+        failedAttempts: 0,
+      })
+    })
+  })
+
+  it('should not track failures without lockout config', async () => {
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+    })
+
+    await reportFailures(5)
+
+    expect(await storage.getUserLockout(userId)).toEqual({ failedAttempts: 0 })
+    expect((await authService.signIn(defaultTestIdentifier)).success).toBe(true)
+  })
+})
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { addSeconds } from 'date-fns'
+import { KenmonAuthService } from '../auth'
+import { KenmonMemoryStorage } from '../memoryStorage'
+import { MockAdapter } from './helpers/mocks'
+import { KenmonIdentifierAlreadyLinkedError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('KenmonMemoryStorage', () => {
+  let storage: KenmonMemoryStorage
+
+  const createTestSession = (userId: string, expiresAt: Date) =>
+    storage.createSession({
+      userId,
+      tokenHash: 'token-hash',
+      expiresAt,
+      mfaEnabled: false,
+      mfaVerified: false,
+    })
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new KenmonMemoryStorage()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('users', () => {
+    it('should create user with sign up data', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {
+        name: 'Test',
+      })
+
+      expect(user.name).toBe('Test')
+      expect(user.mfaEnabled).toBe(false)
+      expect(await storage.getUserById(user.id)).toEqual(user)
+      expect(
+        await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier),
+      ).toEqual({ userId: user.id, mfaEnabled: false })
+    })
+
+    it('should reject identifiers owned by another user', async () => {
+      await storage.createUser(defaultTestIdentifier, {})
+
+      await expect(
+        storage.createUser(defaultTestIdentifier, {}),
+      ).rejects.toBeInstanceOf(KenmonIdentifierAlreadyLinkedError)
+    })
+
+    it('should enable and disable MFA', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+
+      await storage.enableMfa(user.id)
+      expect((await storage.getUserById(user.id))?.mfaEnabled).toBe(true)
+
+      await storage.disableMfa(user.id)
+      expect((await storage.getUserById(user.id))?.mfaEnabled).toBe(false)
+    })
+  })
+
+  describe('sessions', () => {
+    it('should not expose internal state', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const session = await createTestSession(
+        user.id,
+        addSeconds(new Date(), 60),
+      )
+
+      session.invalidated = true
+
+      expect((await storage.getSessionById(session.id))?.invalidated).toBe(
+        false,
+      )
+    })
+
+    it('should invalidate all sessions of a user', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const session = await createTestSession(
+        user.id,
+        addSeconds(new Date(), 60),
+      )
+      await createTestSession(user.id, addSeconds(new Date(), 60))
+
+      await storage.invalidateAllUserSessions(user.id)
+
+      expect(await storage.getUserSessions(user.id)).toEqual([])
+      expect((await storage.getSessionById(session.id))?.invalidatedAt).toEqual(
+        new Date(),
+      )
+    })
+
+    it('should delete expired sessions on cleanup', async () => {
+      const user = await storage.createUser(defaultTestIdentifier, {})
+      const expired = await createTestSession(
+        user.id,
+        addSeconds(new Date(), 60),
+      )
+      const active = await createTestSession(
+        user.id,
+        addSeconds(new Date(), 600),
+      )
+
+      vi.setSystemTime(new Date('2025-01-01T00:02:00Z'))
+      // Writes sweep expired entries at most once a minute
+      await createTestSession(user.id, addSeconds(new Date(), 600))
+
+      expect(await storage.getSessionById(expired.id)).toBeNull()
+      expect(await storage.getSessionById(active.id)).not.toBeNull()
+    })
+  })
+
+  describe('email OTPs', () => {
+    it('should store and mark OTPs as used', async () => {
+      const otp = await storage.createOTP(
+        'test@example.com',
+        '123456',
+        addSeconds(new Date(), 300),
+        'signature',
+      )
+
+      await storage.markOTPAsUsed(otp.id)
+
+      expect(await storage.getOTPById(otp.id)).toEqual({ ...otp, used: true })
+    })
+
+    it('should delete expired OTPs on cleanup', async () => {
+      const otp = await storage.createOTP(
+        'test@example.com',
+        '123456',
+        addSeconds(new Date(), 300),
+        'signature',
+      )
+
+      vi.setSystemTime(new Date('2025-01-01T00:06:00Z'))
+      storage.deleteExpired()
+
+      expect(await storage.getOTPById(otp.id)).toBeNull()
+    })
+  })
+
+  describe('recovery codes', () => {
+    it('should consume each code once', async () => {
+      await storage.replaceRecoveryCodes('user-1', ['hash-1', 'hash-2'])
+
+      expect(await storage.consumeRecoveryCode('user-1', 'hash-1')).toBe(true)
+      expect(await storage.consumeRecoveryCode('user-1', 'hash-1')).toBe(false)
+      expect(await storage.consumeRecoveryCode('user-2', 'hash-2')).toBe(false)
+      expect(await storage.countRecoveryCodes('user-1')).toBe(1)
+    })
+  })
+
+  describe('with KenmonAuthService', () => {
+    it('should support the full session lifecycle', async () => {
+      const adapter = new MockAdapter()
+      const authService = new KenmonAuthService({
+        secret: testSecret,
+        storage,
+        adapter,
+        lockout: { maxAttempts: 2, duration: 60 },
+      })
+
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+      const { userId } = signUpResult.data
+
+      expect((await authService.verifySession()).success).toBe(true)
+      expect((await authService.refreshSession()).success).toBe(true)
+      expect(await authService.listSessions(userId)).toHaveLength(1)
+
+      await authService.linkIdentifier(userId, {
+        type: 'google-oauth',
+        value: '1234567890',
+      })
+      expect(await authService.listIdentifiers(userId)).toHaveLength(2)
+
+      await authService.reportFailedAuthentication(defaultTestIdentifier)
+      await authService.reportFailedAuthentication(defaultTestIdentifier)
+      expect((await authService.signIn(defaultTestIdentifier)).success).toBe(
+        false,
+      )
+
+      await authService.signOut({ allSessions: true })
+      expect(await authService.listSessions(userId)).toEqual([])
+    })
+  })
+})
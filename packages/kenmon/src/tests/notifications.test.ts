@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter, MockMailer } from './helpers/mocks'
+import { KenmonNotificationsConfig } from '../notifications'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+const chromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const newerChromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36'
+const firefoxOnLinux =
+  'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+
+describe('security notifications', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let mailer: MockMailer
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  const createAuthService = (
+    notifications?: Partial<KenmonNotificationsConfig>,
+  ) =>
+    new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      notifications: {
+        mailer,
+        emailFrom: 'security@example.com',
+        getEmail: async (id) =>
+          id === userId ? 'test@example.com' : undefined,
+        ...notifications,
+      },
+    })
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    mailer = new MockMailer()
+    authService = createAuthService()
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+    await authService.signIn(defaultTestIdentifier, {
+      ipAddress: '192.0.2.17',
+      userAgent: chromeOnWindows,
+    })
+    mailer.sentEmails = []
+  })
+
+  describe('new device sign in', () => {
+    it('should email the user about an unknown browser', async () => {
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '198.51.100.4',
+        userAgent: firefoxOnLinux,
+      })
+
+      expect(mailer.sentEmails).toHaveLength(1)
+      const [email] = mailer.sentEmails
+      expect(email.from).toBe('security@example.com')
+      expect(email.to).toBe('test@example.com')
+      expect(email.subject).toBe('New sign in to your account')
+      expect(email.textContent).toContain('Device: Firefox on Linux')
+      expect(email.textContent).toContain('IP address: 198.51.100.4')
+    })
+
+    it('should not email about a browser with an existing session', async () => {
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '198.51.100.4',
+        userAgent: newerChromeOnWindows,
+      })
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+
+    it('should not email after signing out on the same browser', async () => {
+      await authService.signOut()
+
+      await authService.signIn(defaultTestIdentifier, {
+        userAgent: newerChromeOnWindows,
+      })
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+
+    it('should not email after signing out everywhere on the same browser', async () => {
+      await authService.signOut({ allSessions: true })
+      mailer.sentEmails = []
+
+      await authService.signIn(defaultTestIdentifier, {
+        userAgent: newerChromeOnWindows,
+      })
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+
+    it('should not email when the user agent is unknown', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+  })
+
+  describe('account changes', () => {
+    it('should email when MFA is enabled and disabled', async () => {
+      await authService.enableMfa(userId)
+      await authService.disableMfa(userId)
+
+      expect(mailer.sentEmails.map((email) => email.subject)).toEqual([
+        'Two-factor authentication was enabled',
+        'Two-factor authentication was disabled',
+      ])
+      // Device of the current session
+      expect(mailer.sentEmails[0].textContent).toContain(
+        'Device: Chrome on Windows',
+      )
+    })
+
+    it('should email when an identifier is linked', async () => {
+      await authService.linkIdentifier(userId, {
+        type: 'google-oauth',
+        value: '1234567890',
+      })
+
+      expect(mailer.sentEmails).toHaveLength(1)
+      expect(mailer.sentEmails[0].textContent).toContain(
+        'A new sign in method (google-oauth) was added to your account.',
+      )
+    })
+
+    it('should email when all sessions are revoked', async () => {
+      await authService.signOut({ allSessions: true })
+
+      expect(mailer.sentEmails).toHaveLength(1)
+      expect(mailer.sentEmails[0].subject).toBe(
+        'Your account was signed out everywhere',
+      )
+    })
+
+    it('should not email when signing out of one session', async () => {
+      await authService.signOut()
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+  })
+
+  describe('config', () => {
+    it('should only send the configured events', async () => {
+      authService = createAuthService({ events: ['mfa-disabled'] })
+
+      await authService.enableMfa(userId)
+      await authService.disableMfa(userId)
+
+      expect(mailer.sentEmails).toHaveLength(1)
+      expect(mailer.sentEmails[0].subject).toBe(
+        'Two-factor authentication was disabled',
+      )
+    })
+
+    it('should use custom templates', async () => {
+      authService = createAuthService({
+        emailSubject: (notification) => `Security alert: ${notification.event}`,
+      })
+
+      await authService.enableMfa(userId)
+
+      expect(mailer.sentEmails[0].subject).toBe('Security alert: mfa-enabled')
+    })
+
+    it('should escape device values in the default HTML', async () => {
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '<b>198.51.100.4</b>',
+        userAgent: firefoxOnLinux,
+      })
+
+      expect(mailer.sentEmails[0].htmlContent).toContain(
+        '&lt;b&gt;198.51.100.4&lt;/b&gt;',
+      )
+    })
+
+    it('should skip users without an email address', async () => {
+      const otherUser = await storage.createUser(
+        { type: 'email-otp', value: 'other@example.com' },
+        {},
+      )
+
+      await authService.enableMfa(otherUser.id)
+
+      expect(mailer.sentEmails).toEqual([])
+    })
+
+    it('should report mailer errors without failing', async () => {
+      const onError = vi.fn()
+      authService = createAuthService({ onError })
+      const error = new Error('Mailer is down')
+      vi.spyOn(mailer, 'sendEmail').mockRejectedValue(error)
+
+      const result = await authService.signIn(defaultTestIdentifier, {
+        userAgent: firefoxOnLinux,
+      })
+
+      expect(result.success).toBe(true)
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ event: 'new-device-sign-in', userId }),
+      )
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { KenmonRateLimiter, KenmonMemoryRateLimitStorage } from '../rateLimit'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonRateLimitedError, KenmonUserNotFoundError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('KenmonRateLimiter', () => {
+    it('should allow hits up to the limit', async () => {
+      const limiter = new KenmonRateLimiter({ limit: 2, window: 60 })
+
+      expect((await limiter.consume('key')).success).toBe(true)
+      expect((await limiter.consume('key')).success).toBe(true)
+
+      const result = await limiter.consume('key')
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+        expect((result.error as KenmonRateLimitedError).retryAfter).toBe(60)
+      }
+    })
+
+    it('should start a new window after the window passes', async () => {
+      const limiter = new KenmonRateLimiter({ limit: 1, window: 60 })
+      await limiter.consume('key')
+
+      vi.setSystemTime(new Date('2025-01-01T00:00:40Z'))
+      const limitedResult = await limiter.consume('key')
+      expect(limitedResult.success).toBe(false)
+      if (!limitedResult.success) {
+        expect((limitedResult.error as KenmonRateLimitedError).retryAfter).toBe(
+          20,
+        )
+      }
+
+      vi.setSystemTime(new Date('2025-01-01T00:01:00Z'))
+      expect((await limiter.consume('key')).success).toBe(true)
+    })
+
+    it('should count keys separately', async () => {
+      const limiter = new KenmonRateLimiter({ limit: 1, window: 60 })
+
+      expect((await limiter.consume('a')).success).toBe(true)
+      expect((await limiter.consume('b')).success).toBe(true)
+    })
+
+    it('should fail when any of the keys is limited', async () => {
+      const limiter = new KenmonRateLimiter({ limit: 1, window: 60 })
+      await limiter.consume('ip:1')
+
+      const result = await limiter.consume(['ip:1', 'email:a'])
+
+      expect(result.success).toBe(false)
+      // The other key is still counted
+      expect((await limiter.consume('email:a')).success).toBe(false)
+    })
+
+    it('should reset keys', async () => {
+      const limiter = new KenmonRateLimiter({ limit: 1, window: 60 })
+      await limiter.consume('key')
+
+      await limiter.reset('key')
+
+      expect((await limiter.consume('key')).success).toBe(true)
+    })
+
+    it('should share counters through the storage', async () => {
+      const storage = new KenmonMemoryRateLimitStorage()
+      const limiter1 = new KenmonRateLimiter({ limit: 1, window: 60, storage })
+      const limiter2 = new KenmonRateLimiter({ limit: 1, window: 60, storage })
+
+      await limiter1.consume('key')
+
+      expect((await limiter2.consume('key')).success).toBe(false)
+    })
+  })
+
+  describe('KenmonAuthService', () => {
+    let storage: MockStorage
+    let adapter: MockAdapter
+    let authService: KenmonAuthService<any>
+
+    beforeEach(() => {
+      storage = new MockStorage()
+      adapter = new MockAdapter()
+      authService = new KenmonAuthService({
+        secret: testSecret,
+        storage,
+        adapter,
+        rateLimit: {
+          signIn: new KenmonRateLimiter({ limit: 2, window: 60 }),
+          signUp: new KenmonRateLimiter({ limit: 1, window: 60 }),
+        },
+      })
+    })
+
+    it('should limit sign in attempts per identifier', async () => {
+      await storage.createUser(defaultTestIdentifier, {})
+      await authService.signIn(defaultTestIdentifier, { ipAddress: '10.0.0.1' })
+      await authService.signIn(defaultTestIdentifier, { ipAddress: '10.0.0.2' })
+
+      const result = await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '10.0.0.3',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(
+        await storage.getUserSessions(
+          (await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier))!
+            .userId,
+        ),
+      ).toHaveLength(2)
+    })
+
+    it('should limit sign in attempts per IP address', async () => {
+      await authService.signIn(
+        { type: 'email', value: 'a@example.com' },
+        { ipAddress: '10.0.0.1' },
+      )
+      await authService.signIn(
+        { type: 'email', value: 'b@example.com' },
+        { ipAddress: '10.0.0.1' },
+      )
+
+      const result = await authService.signIn(
+        { type: 'email', value: 'c@example.com' },
+        { ipAddress: '10.0.0.1' },
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+    })
+
+    it('should count attempts for unknown identifiers', async () => {
+      const result1 = await authService.signIn(defaultTestIdentifier)
+      const result2 = await authService.signIn(defaultTestIdentifier)
+      const result3 = await authService.signIn(defaultTestIdentifier)
+
+      expect(!result1.success && result1.error).toBeInstanceOf(
+        KenmonUserNotFoundError,
+      )
+      expect(!result2.success && result2.error).toBeInstanceOf(
+        KenmonUserNotFoundError,
+      )
+      expect(!result3.success && result3.error).toBeInstanceOf(
+        KenmonRateLimitedError,
+      )
+    })
+
+    it('should limit sign up attempts', async () => {
+      await authService.signUp(
+        { type: 'email', value: 'a@example.com' },
+        {},
+        { ipAddress: '10.0.0.1' },
+      )
+
+      const result = await authService.signUp(
+        { type: 'email', value: 'b@example.com' },
+        {},
+        { ipAddress: '10.0.0.1' },
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(
+        await storage.getUserAuthInfoByIdentifier({
+          type: 'email',
+          value: 'b@example.com',
+        }),
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonAccountLockedError,
+  KenmonIdentifierNotFoundError,
+  KenmonReauthenticationRequiredError,
+  KenmonSessionNotFoundError,
+} from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('reauthentication', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      lockout: { maxAttempts: 1, duration: 15 * 60 },
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+    await authService.signIn(defaultTestIdentifier)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('verifySession() with maxAuthAge', () => {
+    it('should pass right after sign in', async () => {
+      const result = await authService.verifySession({ maxAuthAge: 5 * 60 })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.authenticatedAt).toEqual(
+          new Date('2025-01-01T00:00:00Z'),
+        )
+      }
+    })
+
+    it('should require reauthentication once maxAuthAge has passed', async () => {
+      vi.setSystemTime(new Date('2025-01-01T00:06:00Z'))
+
+      const result = await authService.verifySession({ maxAuthAge: 5 * 60 })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonReauthenticationRequiredError)
+        expect(
+          (result.error as KenmonReauthenticationRequiredError).authenticatedAt,
+        ).toEqual(new Date('2025-01-01T00:00:00Z'))
+      }
+      // The session itself is still valid
+      expect((await authService.verifySession()).success).toBe(true)
+    })
+
+    it('should not be reset by refreshing the session', async () => {
+      vi.setSystemTime(new Date('2025-01-01T00:06:00Z'))
+      await authService.refreshSession()
+
+      const result = await authService.verifySession({ maxAuthAge: 5 * 60 })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('reauthenticate()', () => {
+    it('should refresh authenticatedAt without a new session', async () => {
+      const [session] = await storage.getUserSessions(userId)
+      vi.setSystemTime(new Date('2025-01-01T00:06:00Z'))
+
+      const result = await authService.reauthenticate(defaultTestIdentifier)
+
+      expect(result.success).toBe(true)
+      const verifyResult = await authService.verifySession({
+        maxAuthAge: 5 * 60,
+      })
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data.id).toBe(session.id)
+        expect(verifyResult.data.authenticatedAt).toEqual(
+          new Date('2025-01-01T00:06:00Z'),
+        )
+      }
+      expect(await storage.getUserSessions(userId)).toHaveLength(1)
+    })
+
+    it('should accept second-factor identifiers of the session user', async () => {
+      const result = await authService.reauthenticate({
+        type: 'totp',
+        value: userId,
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject identifiers of another user', async () => {
+      const otherIdentifier = { type: 'email-otp', value: 'other@example.com' }
+      await storage.createUser(otherIdentifier, {})
+
+      const result = await authService.reauthenticate(otherIdentifier)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonIdentifierNotFoundError)
+      }
+    })
+
+    it('should reject locked accounts', async () => {
+      await authService.reportFailedAuthentication(defaultTestIdentifier)
+
+      const result = await authService.reauthenticate(defaultTestIdentifier)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonAccountLockedError)
+      }
+    })
+
+    it('should return error when no session exists', async () => {
+      await authService.signOut()
+
+      const result = await authService.reauthenticate(defaultTestIdentifier)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonSessionNotFoundError)
+      }
+    })
+  })
+})
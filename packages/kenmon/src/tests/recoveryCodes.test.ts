@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonAccountLockedError,
+  KenmonInvalidRecoveryCodeError,
+  KenmonMfaFailedError,
+  KenmonSessionNotFoundError,
+} from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('recovery codes', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+  let recoveryCodes: string[]
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      lockout: { maxAttempts: 3, duration: 15 * 60 },
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+    recoveryCodes = await authService.enableMfa(userId)
+  })
+
+  describe('enableMfa()', () => {
+    it('should return a set of unique recovery codes', async () => {
+      expect(recoveryCodes).toHaveLength(10)
+      expect(new Set(recoveryCodes).size).toBe(10)
+      for (const code of recoveryCodes) {
+        expect(code).toMatch(/^[2-9a-hjkmnp-z]{5}-[2-9a-hjkmnp-z]{5}$/)
+      }
+      expect(await authService.countRecoveryCodes(userId)).toBe(10)
+    })
+
+    it('should use the configured count', async () => {
+      authService = new KenmonAuthService({
+        secret: testSecret,
+        storage,
+        adapter,
+        recoveryCodes: { count: 5 },
+      })
+
+      expect(await authService.enableMfa(userId)).toHaveLength(5)
+    })
+  })
+
+  describe('verifyRecoveryCode()', () => {
+    it('should mark the session as MFA verified', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result).toEqual({ success: true, data: { remaining: 9 } })
+      expect((await authService.verifySession()).success).toBe(true)
+    })
+
+    it('should accept codes typed with other case and spacing', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const typedCode = ` ${recoveryCodes[0].toUpperCase().replace('-', ' ')} `
+      const result = await authService.verifyRecoveryCode(typedCode)
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should only accept each code once', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      await authService.signIn(defaultTestIdentifier)
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidRecoveryCodeError)
+      }
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(false)
+      if (!verifyResult.success) {
+        expect(verifyResult.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+    })
+
+    it('should return error when no session exists', async () => {
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonSessionNotFoundError)
+      }
+      expect(await authService.countRecoveryCodes(userId)).toBe(10)
+    })
+
+    it('should not accept codes of another user', async () => {
+      const otherUser = await storage.createUser(
+        { type: 'email-otp', value: 'other@example.com' },
+        {},
+      )
+      const otherCodes = await authService.enableMfa(otherUser.id)
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyRecoveryCode(otherCodes[0])
+
+      expect(result.success).toBe(false)
+      expect(await authService.countRecoveryCodes(otherUser.id)).toBe(10)
+    })
+
+    it('should lock the account after repeated wrong codes', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      for (let i = 0; i < 3; i++) {
+        await authService.verifyRecoveryCode('wrong-code')
+      }
+
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonAccountLockedError)
+      }
+      expect(await authService.countRecoveryCodes(userId)).toBe(10)
+    })
+
+    it('should only accept codes hashed with the secret', async () => {
+      authService = new KenmonAuthService({
+        secret: 'other-secret',
+        storage,
+        adapter,
+      })
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result.success).toBe(false)
+      expect(await authService.countRecoveryCodes(userId)).toBe(10)
+    })
+
+    it('should accept codes created before a key rotation', async () => {
+      authService = new KenmonAuthService({
+        secret: {
+          current: { kid: '2025-01', secret: 'new-secret' },
+          previous: [{ kid: '2024-01', secret: testSecret }],
+        },
+        storage,
+        adapter,
+      })
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyRecoveryCode(recoveryCodes[0])
+
+      expect(result).toEqual({ success: true, data: { remaining: 9 } })
+    })
+  })
+
+  describe('regenerateRecoveryCodes()', () => {
+    it('should invalidate the previous codes', async () => {
+      const newCodes = await authService.regenerateRecoveryCodes(userId)
+      await authService.signIn(defaultTestIdentifier)
+
+      const oldResult = await authService.verifyRecoveryCode(recoveryCodes[0])
+      expect(oldResult.success).toBe(false)
+
+      const newResult = await authService.verifyRecoveryCode(newCodes[0])
+      expect(newResult.success).toBe(true)
+    })
+  })
+
+  describe('disableMfa()', () => {
+    it('should delete the recovery codes', async () => {
+      await authService.disableMfa(userId)
+
+      expect(await authService.countRecoveryCodes(userId)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { getIpNetwork, getUserAgentFamily } from '../binding'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import {
+  KenmonInvalidSessionError,
+  KenmonReauthenticationRequiredError,
+  KenmonSessionAnomalyError,
+} from '../errors'
+import { KenmonConfig, KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+const chromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const newerChromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36'
+const firefoxOnLinux =
+  'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+
+const prefixes = { ipv4Prefix: 24, ipv6Prefix: 64 }
+
+describe('getIpNetwork()', () => {
+  it('should clear the host bits of IPv4 addresses', () => {
+    expect(getIpNetwork('192.0.2.17', prefixes)).toBe('192.0.2.0/24')
+    expect(getIpNetwork('192.0.2.17', { ...prefixes, ipv4Prefix: 20 })).toBe(
+      '192.0.0.0/20',
+    )
+  })
+
+  it('should expand and mask IPv6 addresses', () => {
+    expect(getIpNetwork('2001:db8:1:2::abcd', prefixes)).toBe(
+      getIpNetwork('2001:0db8:0001:0002:ffff:0:0:1', prefixes),
+    )
+    expect(getIpNetwork('2001:db8:1:2::1', prefixes)).not.toBe(
+      getIpNetwork('2001:db8:1:3::1', prefixes),
+    )
+  })
+
+  it('should treat IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(getIpNetwork('::ffff:192.0.2.17', prefixes)).toBe('192.0.2.0/24')
+  })
+
+  it('should return undefined for invalid addresses', () => {
+    expect(getIpNetwork('unknown', prefixes)).toBeUndefined()
+  })
+})
+
+describe('getUserAgentFamily()', () => {
+  it('should ignore browser versions', () => {
+    expect(getUserAgentFamily(chromeOnWindows)).toBe('Chrome on Windows')
+    expect(getUserAgentFamily(newerChromeOnWindows)).toBe('Chrome on Windows')
+  })
+
+  it('should tell browsers built on Chrome apart', () => {
+    expect(getUserAgentFamily(`${chromeOnWindows} Edg/120.0.0.0`)).toBe(
+      'Edge on Windows',
+    )
+  })
+
+  it('should name unknown clients after their first product', () => {
+    expect(getUserAgentFamily('curl/8.4.0')).toBe('curl')
+  })
+})
+
+describe('session binding', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+
+  const signInWithBinding = async (binding: KenmonConfig<any>['binding']) => {
+    const authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      binding,
+    })
+    await authService.signIn(defaultTestIdentifier, {
+      ipAddress: '192.0.2.17',
+      userAgent: chromeOnWindows,
+    })
+    return authService
+  }
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    await storage.createUser(defaultTestIdentifier, {})
+  })
+
+  it('should ignore changes by default', async () => {
+    const authService = await signInWithBinding(undefined)
+
+    const result = await authService.verifySession({
+      ipAddress: '198.51.100.1',
+      userAgent: firefoxOnLinux,
+    })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.anomalies).toBeUndefined()
+    }
+  })
+
+  it('should not report changes within the network and browser family', async () => {
+    const authService = await signInWithBinding({
+      ipAddress: 'invalidate',
+      userAgent: 'invalidate',
+    })
+
+    const result = await authService.verifySession({
+      ipAddress: '192.0.2.200',
+      userAgent: newerChromeOnWindows,
+    })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.anomalies).toBeUndefined()
+    }
+  })
+
+  it('should list flagged changes in the session info', async () => {
+    const authService = await signInWithBinding({
+      ipAddress: 'flag',
+      userAgent: 'ignore',
+    })
+
+    const result = await authService.verifySession({
+      ipAddress: '198.51.100.1',
+      userAgent: firefoxOnLinux,
+    })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.anomalies).toEqual([
+        {
+          type: 'ip-address',
+          previous: '192.0.2.17',
+          current: '198.51.100.1',
+        },
+      ])
+    }
+  })
+
+  it('should require reauthentication until the session is rebound', async () => {
+    const authService = await signInWithBinding({
+      userAgent: 'reauthenticate',
+    })
+    const request = { ipAddress: '192.0.2.17', userAgent: firefoxOnLinux }
+
+    const result = await authService.verifySession(request)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(KenmonReauthenticationRequiredError)
+      expect(
+        (result.error as KenmonReauthenticationRequiredError).anomalies,
+      ).toEqual([
+        {
+          type: 'user-agent',
+          previous: chromeOnWindows,
+          current: firefoxOnLinux,
+        },
+      ])
+    }
+
+    await authService.reauthenticate(defaultTestIdentifier, request)
+
+    expect((await authService.verifySession(request)).success).toBe(true)
+    const [session] = await storage.getUserSessions(
+      (await storage.getUserAuthInfoByIdentifier(defaultTestIdentifier))!
+        .userId,
+    )
+    expect(session.ipAddress).toBe('192.0.2.17')
+    expect(session.userAgent).toBe(firefoxOnLinux)
+  })
+
+  it('should invalidate the session', async () => {
+    const authService = await signInWithBinding({ ipAddress: 'invalidate' })
+
+    const result = await authService.verifySession({
+      ipAddress: '198.51.100.1',
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(KenmonSessionAnomalyError)
+    }
+    const retryResult = await authService.verifySession()
+    expect(retryResult.success).toBe(false)
+    if (!retryResult.success) {
+      expect(retryResult.error).toBeInstanceOf(KenmonInvalidSessionError)
+    }
+  })
+
+  it('should apply the strictest action', async () => {
+    const authService = await signInWithBinding({
+      ipAddress: 'flag',
+      userAgent: 'reauthenticate',
+    })
+
+    const result = await authService.verifySession({
+      ipAddress: '198.51.100.1',
+      userAgent: firefoxOnLinux,
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(KenmonReauthenticationRequiredError)
+      expect(
+        (result.error as KenmonReauthenticationRequiredError).anomalies,
+      ).toHaveLength(2)
+    }
+  })
+
+  it('should not check requests without metadata', async () => {
+    const authService = await signInWithBinding({
+      ipAddress: 'invalidate',
+      userAgent: 'invalidate',
+    })
+
+    expect((await authService.verifySession()).success).toBe(true)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonSessionExpiredError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+const hour = 60 * 60
+const day = 24 * hour
+
+describe('session timeouts', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+
+  const advance = (seconds: number) => {
+    vi.setSystemTime(new Date(Date.now() + seconds * 1000))
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+      session: {
+        ttl: 7 * day,
+        idleTimeout: 2 * hour,
+        maxLifetime: 30 * day,
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('idleTimeout', () => {
+    it('should keep session alive while it is used', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+
+      advance(hour)
+      expect((await authService.verifySession()).success).toBe(true)
+      advance(hour + 60)
+      expect((await authService.verifySession()).success).toBe(true)
+    })
+
+    it('should reject session idle for longer than the timeout', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+
+      advance(2 * hour + 1)
+      const result = await authService.verifySession()
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonSessionExpiredError)
+        expect((result.error as KenmonSessionExpiredError).reason).toBe(
+          'idle-timeout',
+        )
+      }
+    })
+
+    it('should hide idle sessions from listSessions', async () => {
+      const signUpResult = await authService.signUp(defaultTestIdentifier, {})
+      if (!signUpResult.success) throw new Error('Setup failed')
+
+      advance(2 * hour + 1)
+
+      expect(await authService.listSessions(signUpResult.data.userId)).toEqual(
+        [],
+      )
+    })
+  })
+
+  describe('maxLifetime', () => {
+    beforeEach(() => {
+      authService = new KenmonAuthService({
+        secret: testSecret,
+        storage,
+        adapter,
+        session: { ttl: 7 * day, maxLifetime: 10 * day },
+      })
+    })
+
+    it('should cap expiry at the maximum lifetime on refresh', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+      const createdAt = new Date()
+
+      advance(6 * day)
+      const result = await authService.refreshSession()
+      expect(result.success).toBe(true)
+
+      const verifyResult = await authService.verifySession()
+      if (!verifyResult.success) throw new Error('Setup failed')
+      expect(verifyResult.data.expiresAt).toEqual(
+        new Date(createdAt.getTime() + 10 * day * 1000),
+      )
+      expect(adapter.getCookieOptions('session')?.maxAge).toBe(4 * day)
+    })
+
+    it('should reject session older than the maximum lifetime', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+
+      advance(6 * day)
+      await authService.refreshSession()
+      advance(4 * day + 1)
+      const result = await authService.verifySession()
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect((result.error as KenmonSessionExpiredError).reason).toBe(
+          'absolute-timeout',
+        )
+      }
+    })
+
+    it('should report regular expiry when the TTL passes first', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+
+      advance(7 * day + 1)
+      const result = await authService.verifySession()
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect((result.error as KenmonSessionExpiredError).reason).toBe(
+          'expired',
+        )
+      }
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonInvalidSessionError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('session management', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    userId = user.id
+  })
+
+  describe('listSessions()', () => {
+    it('should list sessions with metadata and mark the current one', async () => {
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '10.0.0.1',
+        userAgent: 'other-device',
+        setCookie: false,
+      })
+      await authService.signIn(defaultTestIdentifier, {
+        ipAddress: '10.0.0.2',
+        userAgent: 'this-device',
+      })
+
+      const sessions = await authService.listSessions(userId)
+
+      expect(sessions).toHaveLength(2)
+      const current = sessions.find((session) => session.current)
+      expect(current?.ipAddress).toBe('10.0.0.2')
+      expect(current?.userAgent).toBe('this-device')
+      expect(current?.usedAt).toBeInstanceOf(Date)
+      expect(sessions.filter((session) => session.current)).toHaveLength(1)
+      expect((current as any).token).toBeUndefined()
+    })
+
+    it('should exclude invalidated and expired sessions', async () => {
+      await authService.signIn(defaultTestIdentifier, { setCookie: false })
+      await authService.signIn(defaultTestIdentifier, { setCookie: false })
+      await authService.signIn(defaultTestIdentifier)
+
+      const [first, second] = await authService.listSessions(userId)
+      await storage.invalidateSession(first.id)
+      await storage.updateSession(second.id, {
+        expiresAt: new Date(Date.now() - 1000),
+      })
+
+      const sessions = await authService.listSessions(userId)
+      expect(sessions).toHaveLength(1)
+    })
+
+    it('should not list sessions of other users', async () => {
+      const otherIdentifier = { type: 'email', value: 'other@example.com' }
+      await storage.createUser(otherIdentifier, {})
+      await authService.signIn(otherIdentifier)
+
+      const sessions = await authService.listSessions(userId)
+      expect(sessions).toHaveLength(0)
+    })
+  })
+
+  describe('revokeSession()', () => {
+    it('should revoke another session of the user', async () => {
+      await authService.signIn(defaultTestIdentifier, { setCookie: false })
+      await authService.signIn(defaultTestIdentifier)
+
+      const other = (await authService.listSessions(userId)).find(
+        (session) => !session.current,
+      )
+      const result = await authService.revokeSession(userId, other!.id)
+
+      expect(result.success).toBe(true)
+      expect((await storage.getSessionById(other!.id))?.invalidated).toBe(true)
+      expect(adapter.hasCookie('session')).toBe(true)
+      expect((await authService.verifySession()).success).toBe(true)
+    })
+
+    it('should delete cookie when revoking the current session', async () => {
+      await authService.signIn(defaultTestIdentifier)
+      const [current] = await authService.listSessions(userId)
+
+      const result = await authService.revokeSession(userId, current.id)
+
+      expect(result.success).toBe(true)
+      expect(adapter.hasCookie('session')).toBe(false)
+    })
+
+    it('should not revoke session of another user', async () => {
+      const otherIdentifier = { type: 'email', value: 'other@example.com' }
+      const otherUser = await storage.createUser(otherIdentifier, {})
+      await authService.signIn(otherIdentifier)
+      const [otherSession] = await authService.listSessions(otherUser.id)
+
+      const result = await authService.revokeSession(userId, otherSession.id)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+      expect((await storage.getSessionById(otherSession.id))?.invalidated).toBe(
+        false,
+      )
+    })
+
+    it('should return error for unknown session', async () => {
+      const result = await authService.revokeSession(userId, 'unknown')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+    })
+  })
+})
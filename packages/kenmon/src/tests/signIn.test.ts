@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
 import { addSeconds } from 'date-fns'
 import { KenmonAuthService } from '../auth'
@@ -88,7 +89,7 @@ describe('signIn()', () => {
       expect(adapter.hasCookie('session')).toBe(true)
     })
 
-    it('should store session token that matches JWT', async () => {
+    it('should store SHA-256 hash of the JWT session token', async () => {
       await storage.createUser(defaultTestIdentifier, {})
 
       await authService.signIn(defaultTestIdentifier)
@@ -100,7 +101,10 @@ describe('signIn()', () => {
       }
 
       const session = await storage.getSessionById(decoded.sessionId)
-      expect(session?.token).toBe(decoded.token)
+      expect(session?.tokenHash).toBe(
+        crypto.createHash('sha256').update(decoded.token).digest('hex'),
+      )
+      expect(session?.tokenHash).not.toBe(decoded.token)
     })
 
     it('should set session expiration based on default TTL (14 days)', async () => {
@@ -223,8 +227,8 @@ describe('signIn()', () => {
       }
       const session = await storage.getSessionById(decoded.sessionId)
 
-      expect(session?.token).toMatch(/^[0-9a-f]{64}$/)
-      expect(session?.token.length).toBe(64)
+      expect(decoded.token).toMatch(/^[0-9a-f]{64}$/)
+      expect(session?.tokenHash).toMatch(/^[0-9a-f]{64}$/)
     })
   })
 
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
 import { addSeconds } from 'date-fns'
 import { KenmonAuthService } from '../auth'
@@ -157,7 +158,7 @@ describe('signUp()', () => {
       expect(session?.userAgent).toBe('test-agent')
     })
 
-    it('should store session token that matches JWT', async () => {
+    it('should store SHA-256 hash of the JWT session token', async () => {
       await authService.signUp(defaultTestIdentifier, {})
 
       const cookie = await adapter.getCookie('session')
@@ -167,7 +168,10 @@ describe('signUp()', () => {
       }
 
       const session = await storage.getSessionById(decoded.sessionId)
-      expect(session?.token).toBe(decoded.token)
+      expect(session?.tokenHash).toBe(
+        crypto.createHash('sha256').update(decoded.token).digest('hex'),
+      )
+      expect(session?.tokenHash).not.toBe(decoded.token)
     })
 
     it('should initialize session timestamps', async () => {
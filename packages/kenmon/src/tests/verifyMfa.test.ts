@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { KenmonAuthService } from '../auth'
+import { MockStorage, MockAdapter } from './helpers/mocks'
+import { KenmonMfaFailedError, KenmonSessionNotFoundError } from '../errors'
+import { KenmonIdentifier } from '../types'
+
+const defaultTestIdentifier: KenmonIdentifier = {
+  type: 'email',
+  value: 'test@example.com',
+}
+
+const testSecret = 'test-secret'
+
+describe('verifyMfa()', () => {
+  let storage: MockStorage
+  let adapter: MockAdapter
+  let authService: KenmonAuthService<any>
+  let userId: string
+
+  beforeEach(async () => {
+    storage = new MockStorage()
+    adapter = new MockAdapter()
+    authService = new KenmonAuthService({
+      secret: testSecret,
+      storage,
+      adapter,
+    })
+
+    const user = await storage.createUser(defaultTestIdentifier, {})
+    await authService.enableMfa(user.id)
+    userId = user.id
+  })
+
+  describe('Error Cases', () => {
+    it('should return error when no session exists', async () => {
+      const result = await authService.verifyMfa({
+        type: 'totp',
+        value: userId,
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonSessionNotFoundError)
+      }
+    })
+
+    it('should reject identifier of another user', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyMfa({
+        type: 'totp',
+        value: 'another-user',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(false)
+    })
+  })
+
+  describe('Success Cases', () => {
+    it('should require MFA before verification', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifySession()
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonMfaFailedError)
+      }
+    })
+
+    it('should mark session as MFA verified', async () => {
+      await authService.signIn(defaultTestIdentifier)
+
+      const result = await authService.verifyMfa({
+        type: 'totp',
+        value: userId,
+      })
+      expect(result.success).toBe(true)
+
+      const verifyResult = await authService.verifySession()
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data.mfaEnabled).toBe(true)
+        expect(verifyResult.data.mfaVerified).toBe(true)
+      }
+    })
+  })
+})
@@ -126,6 +126,28 @@ describe('verifySession()', () => {
         expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
       }
     })
+
+    it('should reject JWT carrying the stored token hash', async () => {
+      await authService.signUp(defaultTestIdentifier, {})
+
+      const verifyResult1 = await authService.verifySession()
+      if (!verifyResult1.success) throw new Error('Setup failed')
+      const session = await storage.getSessionById(verifyResult1.data.id)
+
+      // A leaked sessions table must not be enough to forge a session
+      const forgedToken = jwt.sign(
+        { sessionId: session!.id, token: session!.tokenHash },
+        testSecret,
+        { algorithm: 'HS256' },
+      )
+      await adapter.setCookie('session', forgedToken)
+
+      const result = await authService.verifySession()
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidSessionError)
+      }
+    })
   })
 
   describe('Success Cases', () => {
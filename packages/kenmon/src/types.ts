@@ -1,3 +1,6 @@
+import type { KenmonRateLimiter } from './rateLimit'
+import type { KenmonNotificationsConfig } from './notifications'
+
 export type KenmonReturnType<D> =
   | { success: true; data: D }
   | { success: false; error: Error }
@@ -11,34 +14,101 @@ export interface KenmonIdentifier {
 export interface KenmonSession {
   id: string
   userId: string
-  token: string
+  tokenHash: string // SHA-256 hex of the token in the session JWT
   expiresAt: Date
   createdAt: Date
   refreshedAt: Date
   usedAt: Date
+  authenticatedAt: Date // sign in or last reauthenticate()
   invalidated: boolean
   invalidatedAt?: Date
   ipAddress?: string
   userAgent?: string
   mfaVerified: boolean
   mfaEnabled: boolean
+  impersonatorId?: string // set on sessions created by impersonate()
+}
+
+// Session data which is safe to expose to the app
+export interface KenmonSessionInfo {
+  id: string
+  userId: string
+  expiresAt: Date
+  refreshedAt: Date
+  createdAt: Date
+  authenticatedAt: Date
+  mfaVerified: boolean
+  mfaEnabled: boolean
+  impersonatorId?: string // ID of the admin acting as the user
+  anomalies?: KenmonSessionAnomaly[] // changes flagged by verifySession()
+}
+
+// What verifySession() does when the request no longer matches the session
+export type KenmonSessionBindingAction =
+  | 'ignore'
+  | 'flag' // succeed, listing the change in `anomalies`
+  | 'reauthenticate' // fail with KenmonReauthenticationRequiredError
+  | 'invalidate' // revoke the session
+
+// Change of network or browser since the session was bound
+export interface KenmonSessionAnomaly {
+  type: 'ip-address' | 'user-agent'
+  previous: string // recorded on the session
+  current: string // sent with the current request
+}
+
+// Session entry for "where you're signed in" pages
+export interface KenmonActiveSession extends KenmonSessionInfo {
+  usedAt: Date
+  ipAddress?: string
+  userAgent?: string
+  current: boolean // true for the session of the current request
+}
+
+// Consecutive failed authentications of a user
+export interface KenmonUserLockout {
+  failedAttempts: number
+  lockedUntil?: Date
 }
 
 export interface KenmonSignInOptions {
   ipAddress?: string
   userAgent?: string
+  setCookie?: boolean // default true, disable for bearer token clients
+}
+
+export interface KenmonVerifySessionOptions {
+  skipMfaCheck?: boolean
+  maxAuthAge?: number // seconds since sign in or reauthenticate()
+  // Current request metadata, checked against the session with `binding`
+  ipAddress?: string
+  userAgent?: string
 }
 
 export interface KenmonSignUpOptions {
   ipAddress?: string
   userAgent?: string
   initialUserData?: any
+  setCookie?: boolean // default true, disable for bearer token clients
 }
 
-export interface KenmonConfig<U> {
+// Session JWT signing keys, identified by the `kid` header
+export interface KenmonSigningKey {
+  kid: string
   secret: string
+}
+
+export interface KenmonKeyring {
+  current: KenmonSigningKey // signs new tokens
+  previous?: KenmonSigningKey[] // only verifies tokens signed before a rotation
+}
+
+export interface KenmonConfig<U> {
+  secret: string | KenmonKeyring
   session?: {
     ttl?: number // seconds
+    idleTimeout?: number // seconds since last use, disabled by default
+    maxLifetime?: number // seconds since creation, refreshes cannot exceed it
     cookieName?: string
     secure?: boolean
     sameSite?: 'lax' | 'strict' | 'none'
@@ -49,6 +119,103 @@ export interface KenmonConfig<U> {
   }
   storage: KenmonStorage<U>
   adapter: KenmonAdapter
+  hooks?: KenmonHooks
+  rateLimit?: {
+    signIn?: KenmonRateLimiter // keyed by IP address and identifier
+    signUp?: KenmonRateLimiter // keyed by IP address and identifier
+  }
+  lockout?: {
+    maxAttempts: number // consecutive failures before locking
+    duration: number // seconds
+  }
+  recoveryCodes?: {
+    count?: number // codes per set, default 10
+  }
+  impersonation?: {
+    ttl?: number // seconds, default 3600, refreshes cannot exceed it
+  }
+  binding?: {
+    ipAddress?: KenmonSessionBindingAction // on IP network change, default 'ignore'
+    userAgent?: KenmonSessionBindingAction // on browser or OS change, default 'ignore'
+    ipv4Prefix?: number // bits of the network compared, default 24
+    ipv6Prefix?: number // bits of the network compared, default 64
+  }
+  notifications?: KenmonNotificationsConfig // security emails, disabled by default
+}
+
+// Account changes users are emailed about
+export type KenmonSecurityEvent =
+  | 'new-device-sign-in' // browser and OS not seen in the user's sessions
+  | 'mfa-enabled'
+  | 'mfa-disabled'
+  | 'identifier-linked'
+  | 'all-sessions-revoked'
+
+// Taken from the session which caused the event
+export interface KenmonDevice {
+  name?: string // browser and OS, e.g. 'Chrome on Windows'
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface KenmonSecurityNotification {
+  event: KenmonSecurityEvent
+  userId: string
+  occurredAt: Date
+  device?: KenmonDevice
+  identifier?: KenmonIdentifier // set for 'identifier-linked'
+}
+
+// Lifecycle hooks
+// Before hooks may return `{ success: false, error }` to abort the operation
+export type KenmonBeforeHookResult = KenmonReturnType<void> | void
+
+export interface KenmonSignInHookParams {
+  identifier: KenmonIdentifier
+  userId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface KenmonSignUpHookParams {
+  identifier: KenmonIdentifier
+  data: any
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface KenmonSessionHookParams {
+  userId: string
+  session: KenmonSessionInfo
+}
+
+export interface KenmonHooks {
+  beforeSignIn?: (
+    params: KenmonSignInHookParams,
+  ) => Promise<KenmonBeforeHookResult>
+  afterSignIn?: (
+    params: KenmonSignInHookParams & { session: KenmonSessionInfo },
+  ) => Promise<void>
+  beforeSignUp?: (
+    params: KenmonSignUpHookParams,
+  ) => Promise<KenmonBeforeHookResult>
+  afterSignUp?: (
+    params: KenmonSignUpHookParams & {
+      userId: string
+      session: KenmonSessionInfo
+    },
+  ) => Promise<void>
+  beforeSignOut?: (
+    params: KenmonSessionHookParams & { allSessions: boolean },
+  ) => Promise<void>
+  afterSignOut?: (
+    params: KenmonSessionHookParams & { allSessions: boolean },
+  ) => Promise<void>
+  beforeRefreshSession?: (
+    params: KenmonSessionHookParams,
+  ) => Promise<KenmonBeforeHookResult>
+  afterRefreshSession?: (params: KenmonSessionHookParams) => Promise<void>
+  onVerifySessionFailure?: (params: { error: Error }) => Promise<void>
 }
 
 // Storage interface
@@ -61,28 +228,62 @@ export interface KenmonStorage<U> {
   ): Promise<{ userId: string; mfaEnabled: boolean } | null>
   enableMfa(userId: string): Promise<void>
   disableMfa(userId: string): Promise<void>
+  // Identifier operations
+  createUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void>
+  getUserIdentifiers(userId: string): Promise<KenmonIdentifier[]>
+  deleteUserIdentifier(
+    userId: string,
+    identifier: KenmonIdentifier,
+  ): Promise<void>
   // Session operations
+  // Set `createdAt`, `refreshedAt`, `usedAt` and `authenticatedAt` to now
   createSession(data: {
     userId: string
-    token: string
+    tokenHash: string
     expiresAt: Date
     mfaEnabled: boolean
     mfaVerified: boolean
     ipAddress?: string
     userAgent?: string
+    impersonatorId?: string
   }): Promise<KenmonSession>
   getSessionById(sessionId: string): Promise<KenmonSession | null>
+  // Sessions of a user which are not invalidated (expired ones included),
+  // or all of them with `includeInvalidated`
+  getUserSessions(
+    userId: string,
+    options?: { includeInvalidated?: boolean },
+  ): Promise<KenmonSession[]>
   updateSession(
     sessionId: string,
     data: {
       expiresAt?: Date
       refreshedAt?: Date
       usedAt?: Date
+      authenticatedAt?: Date
       mfaVerified?: boolean
+      ipAddress?: string
+      userAgent?: string
     },
   ): Promise<void>
   invalidateSession(sessionId: string): Promise<void>
   invalidateAllUserSessions(userId: string): Promise<void>
+  // Lockout operations
+  getUserLockout(userId: string): Promise<KenmonUserLockout>
+  // Increment atomically and return the new count
+  incrementFailedAttempts(userId: string): Promise<number>
+  lockUser(userId: string, lockedUntil: Date): Promise<void>
+  // Reset the count and unlock
+  resetFailedAttempts(userId: string): Promise<void>
+  // Recovery code operations, codes are stored as SHA-256 hex
+  // Delete the previous codes of the user and store the new ones
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>
+  // Delete the code atomically, true if it existed
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>
+  countRecoveryCodes(userId: string): Promise<number>
 }
 
 export interface KenmonSendEmailParams {
@@ -111,4 +312,17 @@ export interface KenmonAdapter {
   setCookie(name: string, value: string, options?: CookieOptions): Promise<void>
   getCookie(name: string): Promise<string | undefined>
   deleteCookie(name: string): Promise<void>
+  // Optional, enables `Authorization: Bearer` session tokens
+  getHeader?(name: string): Promise<string | undefined>
+}
+
+// Rate limit storage interface, implement it on a shared backend (e.g. Redis)
+// when running multiple server instances
+export interface KenmonRateLimitStorage {
+  // Count a hit in the current fixed window, starting a new window if needed
+  increment(
+    key: string,
+    window: number, // seconds
+  ): Promise<{ count: number; resetAt: Date }>
+  reset(key: string): Promise<void>
 }
@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  KenmonMagicLinkAuthenticator,
+  KenmonMagicLinkStorage,
+  KenmonMagicLink,
+  KenmonMagicLinkError,
+} from './index'
+import {
+  KenmonMailer,
+  KenmonSendEmailParams,
+  KenmonRateLimiter,
+  KenmonRateLimitedError,
+} from 'kenmon'
+
+// Mock dependencies
+class MockMailer implements KenmonMailer {
+  sentEmails: KenmonSendEmailParams[] = []
+
+  async sendEmail(params: KenmonSendEmailParams): Promise<void> {
+    this.sentEmails.push(params)
+  }
+
+  // Read the link out of the last email, like a user would
+  getLastLink(): { linkId: string; token: string } {
+    const textContent = this.sentEmails.at(-1)?.textContent ?? ''
+    const url = new URL(textContent.match(/https:\/\/\S+/)![0])
+    return {
+      linkId: url.searchParams.get('id')!,
+      token: url.searchParams.get('token')!,
+    }
+  }
+}
+
+class MockLinkStorage implements KenmonMagicLinkStorage {
+  links = new Map<string, KenmonMagicLink>()
+
+  async createMagicLink(data: {
+    email: string
+    tokenHash: string
+    requestTokenHash: string
+    signature: string
+    expiresAt: Date
+  }) {
+    const id = 'link-' + Math.random().toString(36).slice(2, 9)
+    const link = { id, ...data, approved: false, used: false }
+    this.links.set(id, link)
+    return link
+  }
+
+  async getMagicLinkById(id: string) {
+    return this.links.get(id) || null
+  }
+
+  async markMagicLinkAsApproved(id: string) {
+    const link = this.links.get(id)
+    if (link) {
+      link.approved = true
+    }
+  }
+
+  async markMagicLinkAsUsed(id: string) {
+    const link = this.links.get(id)
+    if (!link || link.used) {
+      return false
+    }
+    link.used = true
+    return true
+  }
+}
+
+describe('KenmonMagicLinkAuthenticator', () => {
+  let authenticator: KenmonMagicLinkAuthenticator
+  let mailer: MockMailer
+  let storage: MockLinkStorage
+
+  beforeEach(() => {
+    mailer = new MockMailer()
+    storage = new MockLinkStorage()
+    authenticator = new KenmonMagicLinkAuthenticator({
+      mailer,
+      linkStorage: storage,
+      linkUrl: 'https://example.com/auth/magic-link',
+      emailFrom: 'noreply@example.com',
+    })
+  })
+
+  const expectMagicLinkError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonMagicLinkError)
+    expect((result.error as KenmonMagicLinkError).reason).toBe(reason)
+  }
+
+  it('should send a magic link', async () => {
+    const result = await authenticator.sendMagicLink('test@example.com')
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    const { linkId, signature, requestToken } = result.data
+    expect(mailer.sentEmails[0]).toMatchObject({
+      to: 'test@example.com',
+      from: 'noreply@example.com',
+    })
+    expect(mailer.sentEmails[0].subject).toContain(signature)
+    expect(mailer.getLastLink().linkId).toBe(linkId)
+
+    // Only hashes are stored
+    const link = await storage.getMagicLinkById(linkId)
+    expect(link?.tokenHash).toMatch(/^[0-9a-f]{64}$/)
+    expect(link?.tokenHash).not.toBe(mailer.getLastLink().token)
+    expect(link?.requestTokenHash).not.toBe(requestToken)
+  })
+
+  it('should reject invalid email addresses', async () => {
+    const result = await authenticator.sendMagicLink('not-an-email')
+
+    expect(result.success).toBe(false)
+    expect(mailer.sentEmails).toHaveLength(0)
+  })
+
+  describe('same device', () => {
+    it('should complete on the requesting device', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+
+      const result = await authenticator.verifyMagicLink(mailer.getLastLink(), {
+        requestToken: sendResult.data.requestToken,
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({
+          status: 'completed',
+          identifier: { type: 'magic-link', value: 'test@example.com' },
+        })
+      }
+    })
+
+    it('should only be used once', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      const options = { requestToken: sendResult.data.requestToken }
+
+      await authenticator.verifyMagicLink(mailer.getLastLink(), options)
+      const result = await authenticator.verifyMagicLink(
+        mailer.getLastLink(),
+        options,
+      )
+
+      expectMagicLinkError(result, 'already-used')
+    })
+
+    it('should only be used once by concurrent requests', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      const options = { requestToken: sendResult.data.requestToken }
+
+      const results = await Promise.all([
+        authenticator.verifyMagicLink(mailer.getLastLink(), options),
+        authenticator.verifyMagicLink(mailer.getLastLink(), options),
+      ])
+
+      expect(results.filter((result) => result.success)).toHaveLength(1)
+      expectMagicLinkError(
+        results.find((result) => !result.success)!,
+        'already-used',
+      )
+    })
+
+    it('should reject a wrong token', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+
+      const result = await authenticator.verifyMagicLink(
+        { linkId: sendResult.data.linkId, token: 'wrong-token' },
+        { requestToken: sendResult.data.requestToken },
+      )
+
+      expectMagicLinkError(result, 'invalid-token')
+    })
+
+    it('should reject expired links', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        const sendResult = await authenticator.sendMagicLink('test@example.com')
+        if (!sendResult.success) throw new Error('Failed to send magic link')
+
+        vi.setSystemTime(new Date(Date.now() + 901 * 1000))
+        const result = await authenticator.verifyMagicLink(
+          mailer.getLastLink(),
+          { requestToken: sendResult.data.requestToken },
+        )
+
+        expectMagicLinkError(result, 'expired')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should complete on any device when crossDevice is disabled', async () => {
+      authenticator = new KenmonMagicLinkAuthenticator({
+        mailer,
+        linkStorage: storage,
+        linkUrl: 'https://example.com/auth/magic-link',
+        emailFrom: 'noreply@example.com',
+        crossDevice: false,
+      })
+      await authenticator.sendMagicLink('test@example.com')
+
+      const result = await authenticator.verifyMagicLink(mailer.getLastLink())
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.status).toBe('completed')
+      }
+    })
+  })
+
+  describe('cross device', () => {
+    it('should approve on another device and complete on the requesting device', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      const { linkId, signature, requestToken } = sendResult.data
+
+      const pendingResult = await authenticator.completeMagicLink({
+        linkId,
+        requestToken,
+      })
+      expectMagicLinkError(pendingResult, 'pending')
+
+      const verifyResult = await authenticator.verifyMagicLink(
+        mailer.getLastLink(),
+      )
+      expect(verifyResult.success).toBe(true)
+      if (verifyResult.success) {
+        expect(verifyResult.data).toEqual({ status: 'approved', signature })
+      }
+
+      const result = await authenticator.completeMagicLink({
+        linkId,
+        requestToken,
+      })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({
+          type: 'magic-link',
+          value: 'test@example.com',
+        })
+      }
+
+      // Neither device can reuse the link
+      expectMagicLinkError(
+        await authenticator.completeMagicLink({ linkId, requestToken }),
+        'already-used',
+      )
+      expectMagicLinkError(
+        await authenticator.verifyMagicLink(mailer.getLastLink()),
+        'already-used',
+      )
+    })
+
+    it('should not approve with a wrong token', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      const { linkId, requestToken } = sendResult.data
+
+      await authenticator.verifyMagicLink({ linkId, token: 'wrong-token' })
+
+      expectMagicLinkError(
+        await authenticator.completeMagicLink({ linkId, requestToken }),
+        'pending',
+      )
+    })
+
+    it('should not complete without the request token', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      await authenticator.verifyMagicLink(mailer.getLastLink())
+
+      const result = await authenticator.completeMagicLink({
+        linkId: sendResult.data.linkId,
+        requestToken: 'wrong-request-token',
+      })
+
+      expectMagicLinkError(result, 'invalid-token')
+    })
+  })
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      authenticator = new KenmonMagicLinkAuthenticator({
+        mailer,
+        linkStorage: storage,
+        linkUrl: 'https://example.com/auth/magic-link',
+        emailFrom: 'noreply@example.com',
+        rateLimit: {
+          send: new KenmonRateLimiter({ limit: 1, window: 60 }),
+          verify: new KenmonRateLimiter({ limit: 2, window: 60 }),
+        },
+      })
+    })
+
+    it('should limit sending links to the same email', async () => {
+      await authenticator.sendMagicLink('test@example.com')
+      const result = await authenticator.sendMagicLink('test@example.com')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(mailer.sentEmails).toHaveLength(1)
+    })
+
+    it('should limit sending links to case variants of the same email', async () => {
+      await authenticator.sendMagicLink('test@example.com')
+      const result = await authenticator.sendMagicLink('Test@EXAMPLE.com')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(mailer.sentEmails).toHaveLength(1)
+    })
+
+    it('should limit verification attempts of a link', async () => {
+      const sendResult = await authenticator.sendMagicLink('test@example.com')
+      if (!sendResult.success) throw new Error('Failed to send magic link')
+      const { linkId } = sendResult.data
+
+      await authenticator.verifyMagicLink({ linkId, token: 'wrong-1' })
+      await authenticator.verifyMagicLink({ linkId, token: 'wrong-2' })
+      const result = await authenticator.verifyMagicLink(mailer.getLastLink())
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+    })
+  })
+})
@@ -0,0 +1,441 @@
+import crypto from 'crypto'
+import { isAfter, addSeconds } from 'date-fns'
+import { z } from 'zod'
+import {
+  KenmonIdentifier,
+  KenmonReturnType,
+  KenmonMailer,
+  KenmonError,
+  KenmonInvalidPayloadError,
+  KenmonRateLimiter,
+  generateSignature,
+} from 'kenmon'
+
+// Magic link specific error with reason discriminator
+export type KenmonMagicLinkErrorReason =
+  | 'not-found'
+  | 'expired'
+  | 'invalid-token'
+  | 'already-used'
+  | 'pending'
+
+export interface KenmonMagicLink {
+  id: string
+  email: string
+  tokenHash: string // SHA-256 hex of the token in the link
+  requestTokenHash: string // SHA-256 hex of the token kept by the requesting device
+  signature: string
+  expiresAt: Date
+  approved: boolean // opened on another device, waiting for completion
+  used: boolean
+}
+
+export class KenmonMagicLinkError extends KenmonError {
+  readonly reason: KenmonMagicLinkErrorReason
+
+  constructor(reason: KenmonMagicLinkErrorReason) {
+    const messages: Record<KenmonMagicLinkErrorReason, string> = {
+      'not-found': 'Magic link not found',
+      expired: 'Magic link has expired',
+      'invalid-token': 'Invalid magic link token',
+      'already-used': 'Magic link has already been used',
+      pending: 'Magic link has not been opened yet',
+    }
+    super(messages[reason])
+    this.name = 'KenmonMagicLinkError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonMagicLinkError.prototype)
+  }
+}
+
+// Rate limit keys ignore case and surrounding whitespace, so variants of an
+// address share one budget
+function getRateLimitEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Zod schemas for payload validation
+const magicLinkPrepareDataSchema = z.object({
+  email: z.email('Invalid email address'),
+})
+
+const magicLinkVerifyDataSchema = z.object({
+  linkId: z.string().min(1, 'Link ID is required'),
+  token: z.string().min(1, 'Link token is required'),
+})
+
+const magicLinkCompleteDataSchema = z.object({
+  linkId: z.string().min(1, 'Link ID is required'),
+  requestToken: z.string().min(1, 'Request token is required'),
+})
+
+// Magic link storage interface
+export interface KenmonMagicLinkStorage {
+  createMagicLink(data: {
+    email: string
+    tokenHash: string
+    requestTokenHash: string
+    signature: string
+    expiresAt: Date
+  }): Promise<KenmonMagicLink>
+  getMagicLinkById(id: string): Promise<KenmonMagicLink | null>
+  markMagicLinkAsApproved(id: string): Promise<void>
+  // Mark it atomically if it is unused, true if it was
+  markMagicLinkAsUsed(id: string): Promise<boolean>
+}
+
+// Result of opening a link, `approved` means the requesting device has to
+// call completeMagicLink()
+export type KenmonMagicLinkVerifyResult =
+  | { status: 'completed'; identifier: KenmonIdentifier }
+  | { status: 'approved'; signature: string }
+
+// MagicLink Provider configuration
+export interface KenmonMagicLinkProviderConfig {
+  mailer: KenmonMailer
+  linkStorage: KenmonMagicLinkStorage
+  linkUrl: string // page calling verifyMagicLink(), `id` and `token` are appended as query params
+  linkTtl?: number // seconds, default 900 (15 minutes)
+  crossDevice?: boolean // default true, false completes sign in on whichever device opens the link
+  emailFrom: string
+  emailSubject?: (url: string, signature: string, linkTtl: number) => string
+  emailTextContent?: (url: string, signature: string, linkTtl: number) => string
+  emailHtmlContent?: (url: string, signature: string, linkTtl: number) => string
+  rateLimit?: {
+    send?: KenmonRateLimiter // keyed by email and IP address
+    verify?: KenmonRateLimiter // keyed by link ID and IP address
+  }
+}
+
+export class KenmonMagicLinkAuthenticator {
+  readonly type = 'magic-link'
+  private mailer: KenmonMailer
+  private linkStorage: KenmonMagicLinkStorage
+  private linkUrl: string
+  private linkTtl: number
+  private crossDevice: boolean
+  private emailFrom: string
+  private emailSubject: (
+    url: string,
+    signature: string,
+    linkTtl: number,
+  ) => string
+  private emailTextContent: (
+    url: string,
+    signature: string,
+    linkTtl: number,
+  ) => string
+  private emailHtmlContent: (
+    url: string,
+    signature: string,
+    linkTtl: number,
+  ) => string
+  private rateLimit: {
+    send?: KenmonRateLimiter
+    verify?: KenmonRateLimiter
+  }
+
+  constructor(config: KenmonMagicLinkProviderConfig) {
+    this.mailer = config.mailer
+    this.linkStorage = config.linkStorage
+    this.linkUrl = config.linkUrl
+    this.linkTtl = config.linkTtl ?? 900 // 15 minutes default
+    this.crossDevice = config.crossDevice ?? true
+    this.emailFrom = config.emailFrom
+    this.rateLimit = config.rateLimit ?? {}
+
+    // Set default email subject
+    this.emailSubject =
+      config.emailSubject ??
+      ((url: string, signature: string, linkTtl: number) => {
+        return `Sign in to your account - ${signature}`
+      })
+
+    // Set default text content
+    this.emailTextContent =
+      config.emailTextContent ??
+      ((url: string, signature: string, linkTtl: number) => {
+        return `Open this link to sign in: ${url}
+
+Request Signature: ${signature}
+
+⚠️ Verify this signature matches the one shown on the website before opening the link.
+
+This link will expire in ${Math.floor(linkTtl / 60)} minutes and can only be used once.`
+      })
+
+    // Set default HTML content
+    this.emailHtmlContent =
+      config.emailHtmlContent ??
+      ((url: string, signature: string, linkTtl: number) => {
+        return `
+<div>
+  <p>Open this link to sign in:</p>
+  <p><a href="${url}" style="font-size: 18px; font-weight: bold;">Sign in</a></p>
+  <p><strong>Request Signature:</strong> ${signature}</p>
+  <p style="color: #666; font-size: 14px; margin-top: 8px;">⚠️ Verify this signature matches the one shown on the website before opening the link.</p>
+  <p style="margin-top: 16px;">This link will expire in ${Math.floor(linkTtl / 60)} minutes and can only be used once.</p>
+</div>
+      `.trim()
+      })
+  }
+
+  /**
+   * Email a sign in link. Keep `requestToken` on the requesting device
+   * (e.g. in an httpOnly cookie), it identifies the device when the link is
+   * opened and is required by completeMagicLink().
+   */
+  async sendMagicLink(
+    email: string,
+    options?: { ipAddress?: string },
+  ): Promise<
+    KenmonReturnType<{
+      linkId: string
+      signature: string
+      requestToken: string
+    }>
+  > {
+    // Validate email
+    const result = magicLinkPrepareDataSchema.safeParse({ email })
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const rateLimitKeys = [`send-magic-link:email:${getRateLimitEmail(email)}`]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`send-magic-link:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.send?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
+    try {
+      const token = this.generateToken()
+      const requestToken = this.generateToken()
+      const signature = generateSignature()
+      const expiresAt = addSeconds(new Date(), this.linkTtl)
+
+      // Only hashes are stored, so a leaked table can't be used to sign in
+      const link = await this.linkStorage.createMagicLink({
+        email,
+        tokenHash: this.hashToken(token),
+        requestTokenHash: this.hashToken(requestToken),
+        signature,
+        expiresAt,
+      })
+
+      const url = new URL(this.linkUrl)
+      url.searchParams.set('id', link.id)
+      url.searchParams.set('token', token)
+
+      // Generate email content
+      const subject = this.emailSubject(url.href, signature, this.linkTtl)
+      const textContent = this.emailTextContent(
+        url.href,
+        signature,
+        this.linkTtl,
+      )
+      const htmlContent = this.emailHtmlContent(
+        url.href,
+        signature,
+        this.linkTtl,
+      )
+
+      // Send email
+      await this.mailer.sendEmail({
+        from: this.emailFrom,
+        to: email,
+        subject,
+        textContent,
+        htmlContent,
+      })
+
+      return {
+        success: true,
+        data: { linkId: link.id, signature: link.signature, requestToken },
+      }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Verify an opened link. On the requesting device (matching
+   * `requestToken`), or on any device when crossDevice is disabled, the link
+   * is used and the identifier returned. On another device the link is only
+   * approved, and the requesting device signs in with completeMagicLink().
+   */
+  async verifyMagicLink(
+    payload: {
+      linkId: string
+      token: string
+    },
+    options?: { requestToken?: string; ipAddress?: string },
+  ): Promise<KenmonReturnType<KenmonMagicLinkVerifyResult>> {
+    // Validate payload with Zod
+    const result = magicLinkVerifyDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { linkId, token } = result.data
+
+    const rateLimitKeys = [`verify-magic-link:link:${linkId}`]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`verify-magic-link:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.verify?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
+    try {
+      const linkResult = await this.getUsableLink(linkId)
+      if (!linkResult.success) {
+        return linkResult
+      }
+      const link = linkResult.data
+
+      if (!this.isTokenValid(token, link.tokenHash)) {
+        return {
+          success: false,
+          error: new KenmonMagicLinkError('invalid-token'),
+        }
+      }
+
+      const isRequestingDevice =
+        options?.requestToken != null &&
+        this.isTokenValid(options.requestToken, link.requestTokenHash)
+      if (this.crossDevice && !isRequestingDevice) {
+        await this.linkStorage.markMagicLinkAsApproved(linkId)
+        return {
+          success: true,
+          data: { status: 'approved', signature: link.signature },
+        }
+      }
+
+      // Claim the link, so concurrent requests with it can't all succeed
+      if (!(await this.linkStorage.markMagicLinkAsUsed(linkId))) {
+        return {
+          success: false,
+          error: new KenmonMagicLinkError('already-used'),
+        }
+      }
+
+      return {
+        success: true,
+        data: { status: 'completed', identifier: this.toIdentifier(link) },
+      }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Finish a cross-device sign in on the requesting device. Fails with the
+   * `pending` reason until the link is opened on another device, so it can be
+   * polled. Not rate limited since polling would exhaust the limit and the
+   * request token can't be guessed.
+   */
+  async completeMagicLink(payload: {
+    linkId: string
+    requestToken: string
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    // Validate payload with Zod
+    const result = magicLinkCompleteDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { linkId, requestToken } = result.data
+
+    try {
+      const linkResult = await this.getUsableLink(linkId)
+      if (!linkResult.success) {
+        return linkResult
+      }
+      const link = linkResult.data
+
+      if (!this.isTokenValid(requestToken, link.requestTokenHash)) {
+        return {
+          success: false,
+          error: new KenmonMagicLinkError('invalid-token'),
+        }
+      }
+
+      if (!link.approved) {
+        return { success: false, error: new KenmonMagicLinkError('pending') }
+      }
+
+      // Claim the link, so concurrent requests with it can't all succeed
+      if (!(await this.linkStorage.markMagicLinkAsUsed(linkId))) {
+        return {
+          success: false,
+          error: new KenmonMagicLinkError('already-used'),
+        }
+      }
+
+      return { success: true, data: this.toIdentifier(link) }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  private async getUsableLink(
+    linkId: string,
+  ): Promise<KenmonReturnType<KenmonMagicLink>> {
+    const link = await this.linkStorage.getMagicLinkById(linkId)
+    if (!link) {
+      return { success: false, error: new KenmonMagicLinkError('not-found') }
+    }
+
+    // Check if link has been used
+    if (link.used) {
+      return {
+        success: false,
+        error: new KenmonMagicLinkError('already-used'),
+      }
+    }
+
+    // Check if link has expired
+    if (isAfter(new Date(), link.expiresAt)) {
+      return { success: false, error: new KenmonMagicLinkError('expired') }
+    }
+
+    return { success: true, data: link }
+  }
+
+  private toIdentifier(link: KenmonMagicLink): KenmonIdentifier {
+    return {
+      type: 'magic-link',
+      value: link.email,
+    }
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('hex')
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  private isTokenValid(token: string, tokenHash: string): boolean {
+    const expected = Buffer.from(tokenHash, 'hex')
+    const actual = Buffer.from(this.hashToken(token), 'hex')
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    )
+  }
+}
@@ -20,7 +20,7 @@ interface SessionRefreshProps {
    * export const refreshSession = createRefreshSessionAction(auth)
    * ```
    */
-  refreshAction: () => Promise<KenmonReturnType<void>>
+  refreshAction: () => Promise<KenmonReturnType<unknown>>
   /**
    * Time in seconds before a session needs refresh.
    * Should match the refreshInterval configured in your auth service.
@@ -1,4 +1,4 @@
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
 import { KenmonAdapter, CookieOptions } from 'kenmon'
 
 export class KenmonNextJSAdapter implements KenmonAdapter {
@@ -27,6 +27,11 @@ export class KenmonNextJSAdapter implements KenmonAdapter {
     const cookieStore = await cookies()
     cookieStore.delete(name)
   }
+
+  async getHeader(name: string): Promise<string | undefined> {
+    const headerStore = await headers()
+    return headerStore.get(name) ?? undefined
+  }
 }
 
 export { SessionRefresh } from './SessionRefresh'
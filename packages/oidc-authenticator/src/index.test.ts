@@ -0,0 +1,397 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { createHash, generateKeyPairSync, type KeyObject } from 'crypto'
+import jwt from 'jsonwebtoken'
+import type { CookieOptions, KenmonAdapter } from 'kenmon'
+import { KenmonOIDCAuthenticator, KenmonOIDCError } from './index'
+
+const clientId = 'test-client'
+const clientSecret = 'test-client-secret'
+const redirectUri = 'http://localhost:3000/auth/callback/oidc'
+
+class TestAdapter implements KenmonAdapter {
+  cookies = new Map<string, { value: string; options?: CookieOptions }>()
+
+  async setCookie(name: string, value: string, options?: CookieOptions) {
+    this.cookies.set(name, { value, options })
+  }
+
+  async getCookie(name: string) {
+    return this.cookies.get(name)?.value
+  }
+
+  async deleteCookie(name: string) {
+    this.cookies.delete(name)
+  }
+}
+
+// Local stand-in for an OpenID provider (discovery, JWKS and token endpoint)
+class TestOIDCServer {
+  issuer = ''
+  keys: { kid: string; privateKey: KeyObject; publicKey: KeyObject }[] = []
+  // Claims of the ID token issued for the next authorization code
+  claims: Record<string, unknown> = {}
+  tokenRequests: {
+    headers: http.IncomingHttpHeaders
+    body: URLSearchParams
+  }[] = []
+  jwksRequests = 0
+  discoveryIssuer?: string
+  private server = http.createServer((req, res) => this.handle(req, res))
+
+  async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve))
+    const { port } = this.server.address() as AddressInfo
+    this.issuer = `http://localhost:${port}`
+    this.rotateKey()
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve))
+  }
+
+  rotateKey() {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    })
+    this.keys.unshift({ kid: `key-${this.keys.length}`, privateKey, publicKey })
+  }
+
+  signIdToken(claims: Record<string, unknown>, kid = this.keys[0].kid) {
+    const key = this.keys.find((key) => key.kid === kid)!
+    return jwt.sign(
+      {
+        iss: this.issuer,
+        aud: clientId,
+        sub: 'user-123',
+        ...claims,
+      },
+      key.privateKey,
+      { algorithm: 'RS256', keyid: kid, expiresIn: 300 },
+    )
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: this.discoveryIssuer ?? this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        id_token_signing_alg_values_supported: ['RS256'],
+      })
+    }
+    if (req.url === '/jwks') {
+      this.jwksRequests++
+      return json(200, {
+        keys: this.keys.map(({ kid, publicKey }) => ({
+          ...publicKey.export({ format: 'jwk' }),
+          kid,
+          use: 'sig',
+          alg: 'RS256',
+        })),
+      })
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let data = ''
+      req.on('data', (chunk) => (data += chunk))
+      req.on('end', () => {
+        const body = new URLSearchParams(data)
+        this.tokenRequests.push({ headers: req.headers, body })
+        if (body.get('code') !== 'valid-code') {
+          return json(400, { error: 'invalid_grant' })
+        }
+        json(200, {
+          access_token: 'access-token',
+          token_type: 'Bearer',
+          id_token: this.signIdToken(this.claims),
+        })
+      })
+      return
+    }
+    json(404, { error: 'not_found' })
+  }
+}
+
+describe('KenmonOIDCAuthenticator', () => {
+  const server = new TestOIDCServer()
+  let adapter: TestAdapter
+  let authenticator: KenmonOIDCAuthenticator
+
+  const createAuthenticator = (
+    config?: Partial<ConstructorParameters<typeof KenmonOIDCAuthenticator>[0]>,
+  ) =>
+    new KenmonOIDCAuthenticator({
+      issuer: server.issuer,
+      clientId,
+      clientSecret,
+      redirectUri,
+      secret: 'state-secret',
+      adapter,
+      ...config,
+    })
+
+  // Walk through the authorization endpoint like the provider would
+  const authorize = async (intent: 'sign-in' | 'sign-up' | 'link') => {
+    const result = await authenticator.getAuthUrl(intent)
+    if (!result.success) throw new Error('Failed to get auth URL')
+    const authUrl = new URL(result.data)
+    server.claims = { nonce: authUrl.searchParams.get('nonce') }
+    return { authUrl, state: authUrl.searchParams.get('state')! }
+  }
+
+  const expectOIDCError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonOIDCError)
+    expect((result.error as KenmonOIDCError).reason).toBe(reason)
+  }
+
+  beforeAll(async () => {
+    await server.start()
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  beforeEach(() => {
+    server.tokenRequests = []
+    server.discoveryIssuer = undefined
+    adapter = new TestAdapter()
+    authenticator = createAuthenticator()
+  })
+
+  describe('getAuthUrl()', () => {
+    it('should build the authorization URL from discovery metadata', async () => {
+      const { authUrl } = await authorize('sign-in')
+
+      expect(authUrl.origin + authUrl.pathname).toBe(
+        `${server.issuer}/authorize`,
+      )
+      expect(Object.fromEntries(authUrl.searchParams)).toMatchObject({
+        response_type: 'code',
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope: 'openid email profile',
+      })
+      expect(authUrl.searchParams.get('nonce')).toMatch(/^[0-9a-f]{32}$/)
+    })
+
+    it('should send a PKCE challenge and set the verifier cookie', async () => {
+      const { authUrl } = await authorize('sign-in')
+
+      const cookie = adapter.cookies.get('kenmon-oidc')
+      expect(cookie?.options).toMatchObject({
+        httpOnly: true,
+        sameSite: 'lax',
+        maxAge: 600,
+      })
+      expect(authUrl.searchParams.get('code_challenge_method')).toBe('S256')
+      expect(authUrl.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(cookie!.value).digest('base64url'),
+      )
+    })
+
+    it('should fail when the discovered issuer does not match', async () => {
+      server.discoveryIssuer = 'https://evil.example.com'
+
+      const result = await authenticator.getAuthUrl('sign-in')
+
+      expectOIDCError(result, 'discovery-failed')
+    })
+  })
+
+  describe('verifyCallback()', () => {
+    it('should verify the ID token and map claims to an identifier', async () => {
+      const { state } = await authorize('sign-up')
+      const codeVerifier = adapter.cookies.get('kenmon-oidc')!.value
+      server.claims = {
+        ...server.claims,
+        email: 'test@example.com',
+        email_verified: true,
+        name: 'Test User',
+      }
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.intent).toBe('sign-up')
+        expect(result.data.identifier).toEqual({
+          type: 'oidc',
+          value: 'user-123',
+          data: expect.objectContaining({
+            issuer: server.issuer,
+            sub: 'user-123',
+            email: 'test@example.com',
+            emailVerified: true,
+            name: 'Test User',
+          }),
+        })
+      }
+      const [tokenRequest] = server.tokenRequests
+      expect(tokenRequest.body.get('grant_type')).toBe('authorization_code')
+      expect(tokenRequest.body.get('redirect_uri')).toBe(redirectUri)
+      expect(tokenRequest.body.get('code_verifier')).toBe(codeVerifier)
+      expect(tokenRequest.headers.authorization).toBe(
+        `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      )
+    })
+
+    it('should use the configured identifier type and claim mapping', async () => {
+      authenticator = createAuthenticator({
+        type: 'keycloak',
+        tokenEndpointAuthMethod: 'client_secret_post',
+        mapClaims: (claims, type) => ({
+          type,
+          value: claims.sub,
+          data: { roles: claims.roles },
+        }),
+      })
+      const { state } = await authorize('sign-in')
+      server.claims = { ...server.claims, roles: ['admin'] }
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.identifier).toEqual({
+          type: 'keycloak',
+          value: 'user-123',
+          data: { roles: ['admin'] },
+        })
+      }
+      expect(server.tokenRequests[0].body.get('client_secret')).toBe(
+        clientSecret,
+      )
+    })
+
+    it('should reject invalid state tokens', async () => {
+      const result = await authenticator.verifyCallback('valid-code', 'invalid')
+
+      expectOIDCError(result, 'invalid-state')
+      expect(server.tokenRequests).toHaveLength(0)
+    })
+
+    it('should reject callbacks in a browser which did not start the flow', async () => {
+      const { state } = await authorize('sign-in')
+      adapter.cookies.clear()
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-state')
+      expect(server.tokenRequests).toHaveLength(0)
+    })
+
+    it('should reject state from another flow', async () => {
+      const { state } = await authorize('sign-in')
+      // The browser has since started another flow
+      await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-state')
+      expect(server.tokenRequests).toHaveLength(0)
+    })
+
+    it('should only accept the code verifier cookie once', async () => {
+      const { state } = await authorize('sign-in')
+      await authenticator.verifyCallback('valid-code', state)
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-state')
+      expect(server.tokenRequests).toHaveLength(1)
+      expect(adapter.cookies.has('kenmon-oidc')).toBe(false)
+    })
+
+    it('should reject invalid authorization codes', async () => {
+      const { state } = await authorize('sign-in')
+
+      const result = await authenticator.verifyCallback('invalid-code', state)
+
+      expectOIDCError(result, 'token-exchange-failed')
+    })
+
+    it('should reject ID tokens with another nonce', async () => {
+      const { state } = await authorize('sign-in')
+      server.claims = { nonce: 'other-nonce' }
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-id-token')
+    })
+
+    it('should reject ID tokens for another audience', async () => {
+      const { state } = await authorize('sign-in')
+      server.claims = { ...server.claims, aud: 'other-client' }
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-id-token')
+    })
+
+    it('should reject ID tokens with an invalid signature', async () => {
+      const { state } = await authorize('sign-in')
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+      server.keys[0] = { ...server.keys[0], privateKey }
+
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-id-token')
+      server.rotateKey()
+    })
+
+    it('should pick up rotated signing keys', async () => {
+      let { state } = await authorize('sign-in')
+      expect(
+        (await authenticator.verifyCallback('valid-code', state)).success,
+      ).toBe(true)
+      const jwksRequests = server.jwksRequests
+
+      server.rotateKey()
+      ;({ state } = await authorize('sign-in'))
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        // Unknown keys only trigger a refetch every 30 seconds
+        vi.setSystemTime(new Date(Date.now() + 31 * 1000))
+        const result = await authenticator.verifyCallback('valid-code', state)
+
+        expect(result.success).toBe(true)
+        expect(server.jwksRequests).toBe(jwksRequests + 1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should not refetch the JWKS for every unknown key', async () => {
+      let { state } = await authorize('sign-in')
+      await authenticator.verifyCallback('valid-code', state)
+      const jwksRequests = server.jwksRequests
+
+      server.rotateKey()
+      ;({ state } = await authorize('sign-in'))
+      const result = await authenticator.verifyCallback('valid-code', state)
+
+      expectOIDCError(result, 'invalid-id-token')
+      expect(server.jwksRequests).toBe(jwksRequests)
+    })
+  })
+})
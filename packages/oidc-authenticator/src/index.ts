@@ -0,0 +1,413 @@
+import jwt from 'jsonwebtoken'
+import {
+  createHash,
+  createPublicKey,
+  randomBytes,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto'
+import type { KenmonAdapter, KenmonIdentifier, KenmonReturnType } from 'kenmon'
+import { KenmonError } from 'kenmon'
+import type {
+  KenmonOIDCAuthenticatorConfig,
+  KenmonOIDCClaims,
+  KenmonOIDCData,
+  KenmonOIDCErrorReason,
+  KenmonOIDCIntent,
+  KenmonOIDCProviderMetadata,
+  StatePayload,
+} from './types'
+
+export * from './types'
+
+// Asymmetric algorithms only, HS* would make the client secret a signing key
+const supportedAlgorithms: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+]
+
+// Refetch the JWKS for an unknown `kid` at most this often, so forged tokens
+// can't make us hammer the provider
+const jwksRefetchInterval = 30 * 1000
+const stateTtl = 600 // 10 minutes
+
+export class KenmonOIDCError extends KenmonError {
+  readonly reason: KenmonOIDCErrorReason
+
+  constructor(reason: KenmonOIDCErrorReason) {
+    const messages: Record<KenmonOIDCErrorReason, string> = {
+      'invalid-state': 'Invalid or expired state token',
+      'discovery-failed': 'Failed to read OpenID provider metadata',
+      'token-exchange-failed': 'Failed to exchange code for tokens',
+      'invalid-id-token': 'Invalid ID token',
+    }
+
+    super(messages[reason])
+    this.name = 'KenmonOIDCError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonOIDCError.prototype)
+  }
+}
+
+/**
+ * Map standard claims of the ID token to an identifier keyed by `sub`
+ */
+export function defaultMapClaims(
+  claims: KenmonOIDCClaims,
+  type: string,
+): KenmonIdentifier {
+  return {
+    type,
+    value: claims.sub,
+    data: {
+      issuer: claims.iss,
+      sub: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified,
+      name: claims.name,
+      givenName: claims.given_name,
+      familyName: claims.family_name,
+      preferredUsername: claims.preferred_username,
+      picture: claims.picture,
+      locale: claims.locale,
+    } satisfies KenmonOIDCData,
+  }
+}
+
+export class KenmonOIDCAuthenticator {
+  public readonly type: string
+  private readonly config: Required<
+    Omit<KenmonOIDCAuthenticatorConfig, 'type' | 'adapter' | 'secure'>
+  > &
+    Pick<KenmonOIDCAuthenticatorConfig, 'secure'>
+  private readonly adapter: KenmonAdapter
+  private metadata: Promise<KenmonOIDCProviderMetadata> | null = null
+  private jwks: { keys: JsonWebKey[]; fetchedAt: number } | null = null
+
+  constructor(config: KenmonOIDCAuthenticatorConfig) {
+    const { adapter, type, ...rest } = config
+    this.type = type ?? 'oidc'
+    this.config = {
+      ...rest,
+      issuer: config.issuer.replace(/\/+$/, ''),
+      scopes: config.scopes ?? ['openid', 'email', 'profile'],
+      tokenEndpointAuthMethod:
+        config.tokenEndpointAuthMethod ?? 'client_secret_basic',
+      clockTolerance: config.clockTolerance ?? 60,
+      mapClaims: config.mapClaims ?? defaultMapClaims,
+      cookieName: config.cookieName ?? `kenmon-${this.type}`,
+    }
+    this.adapter = adapter
+  }
+
+  /**
+   * Generate the authorization URL with JWT-signed state, and set the PKCE
+   * code verifier cookie which binds the flow to this browser
+   * @param intent - 'sign-in', 'sign-up' or 'link' (attach the provider to a signed-in user)
+   * @returns Authorization URL string
+   */
+  async getAuthUrl(
+    intent: KenmonOIDCIntent,
+  ): Promise<KenmonReturnType<string>> {
+    const metadataResult = await this.getMetadata()
+    if (!metadataResult.success) {
+      return metadataResult
+    }
+
+    const codeVerifier = randomBytes(32).toString('base64url')
+    const statePayload = this.createStatePayload(intent, codeVerifier)
+
+    await this.adapter.setCookie(this.config.cookieName, codeVerifier, {
+      httpOnly: true,
+      secure: this.config.secure ?? process.env.NODE_ENV === 'production',
+      // The provider redirects back with a top-level GET, which `strict`
+      // would drop
+      sameSite: 'lax',
+      maxAge: stateTtl,
+      path: '/',
+    })
+
+    const authUrl = new URL(metadataResult.data.authorization_endpoint)
+    authUrl.searchParams.set('response_type', 'code')
+    authUrl.searchParams.set('client_id', this.config.clientId)
+    authUrl.searchParams.set('redirect_uri', this.config.redirectUri)
+    authUrl.searchParams.set('scope', this.config.scopes.join(' '))
+    authUrl.searchParams.set('state', this.signStateToken(statePayload))
+    authUrl.searchParams.set('nonce', statePayload.nonce)
+    authUrl.searchParams.set('code_challenge', statePayload.codeChallenge)
+    authUrl.searchParams.set('code_challenge_method', 'S256')
+
+    return { success: true, data: authUrl.href }
+  }
+
+  /**
+   * Verify OAuth callback, exchange code for an ID token and verify it. Must
+   * run in the browser which called `getAuthUrl()`, as the state is checked
+   * against its code verifier cookie
+   * @param code - OAuth authorization code from callback
+   * @param state - JWT state token from callback
+   * @returns Object with intent, KenmonIdentifier and the verified claims
+   */
+  async verifyCallback(
+    code: string,
+    state: string,
+  ): Promise<
+    KenmonReturnType<{
+      intent: KenmonOIDCIntent
+      identifier: KenmonIdentifier
+      claims: KenmonOIDCClaims
+    }>
+  > {
+    // The code verifier is single use, drop it whatever the outcome
+    const codeVerifier = await this.adapter.getCookie(this.config.cookieName)
+    if (codeVerifier) {
+      await this.adapter.deleteCookie(this.config.cookieName)
+    }
+
+    // Verify state token, and that this browser started the flow so an
+    // attacker can't sign the victim in with their own callback URL
+    const statePayload = this.verifyStateToken(state)
+    if (
+      !statePayload ||
+      !codeVerifier ||
+      this.createCodeChallenge(codeVerifier) !== statePayload.codeChallenge
+    ) {
+      return {
+        success: false,
+        error: new KenmonOIDCError('invalid-state'),
+      }
+    }
+
+    const metadataResult = await this.getMetadata()
+    if (!metadataResult.success) {
+      return metadataResult
+    }
+    const metadata = metadataResult.data
+
+    // Exchange code for tokens
+    const idToken = await this.exchangeCode(metadata, code, codeVerifier)
+    if (!idToken) {
+      return {
+        success: false,
+        error: new KenmonOIDCError('token-exchange-failed'),
+      }
+    }
+
+    const claims = await this.verifyIdToken(metadata, idToken)
+    if (!claims || claims.nonce !== statePayload.nonce) {
+      return {
+        success: false,
+        error: new KenmonOIDCError('invalid-id-token'),
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        intent: statePayload.intent,
+        identifier: this.config.mapClaims(claims, this.type),
+        claims,
+      },
+    }
+  }
+
+  /**
+   * Read discovery metadata, cached after the first success
+   */
+  private async getMetadata(): Promise<
+    KenmonReturnType<KenmonOIDCProviderMetadata>
+  > {
+    this.metadata ??= this.fetchMetadata()
+
+    try {
+      return { success: true, data: await this.metadata }
+    } catch {
+      // Retry on the next call
+      this.metadata = null
+      return {
+        success: false,
+        error: new KenmonOIDCError('discovery-failed'),
+      }
+    }
+  }
+
+  private async fetchMetadata(): Promise<KenmonOIDCProviderMetadata> {
+    const response = await fetch(
+      `${this.config.issuer}/.well-known/openid-configuration`,
+      { headers: { Accept: 'application/json' } },
+    )
+    if (!response.ok) {
+      throw new Error(`Discovery failed with status ${response.status}`)
+    }
+
+    const metadata = (await response.json()) as KenmonOIDCProviderMetadata
+    // The spec requires the issuer to match exactly, this stops a provider
+    // from vouching for tokens of another issuer
+    if (metadata.issuer.replace(/\/+$/, '') !== this.config.issuer) {
+      throw new Error('Issuer mismatch')
+    }
+    if (
+      !metadata.authorization_endpoint ||
+      !metadata.token_endpoint ||
+      !metadata.jwks_uri
+    ) {
+      throw new Error('Incomplete provider metadata')
+    }
+
+    return metadata
+  }
+
+  private async exchangeCode(
+    metadata: KenmonOIDCProviderMetadata,
+    code: string,
+    codeVerifier: string,
+  ): Promise<string | null> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: codeVerifier,
+    })
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    }
+
+    if (this.config.tokenEndpointAuthMethod === 'client_secret_basic') {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    } else {
+      body.set('client_id', this.config.clientId)
+      body.set('client_secret', this.config.clientSecret)
+    }
+
+    try {
+      const response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers,
+        body,
+      })
+      if (!response.ok) return null
+
+      const tokens = (await response.json()) as { id_token?: string }
+      return tokens.id_token ?? null
+    } catch {
+      return null
+    }
+  }
+
+  private async verifyIdToken(
+    metadata: KenmonOIDCProviderMetadata,
+    idToken: string,
+  ): Promise<KenmonOIDCClaims | null> {
+    const decoded = jwt.decode(idToken, { complete: true })
+    if (!decoded) return null
+
+    const algorithm = decoded.header.alg as jwt.Algorithm
+    if (!supportedAlgorithms.includes(algorithm)) return null
+
+    try {
+      const key = await this.getSigningKey(metadata, decoded.header.kid)
+      if (!key) return null
+
+      const claims = jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        issuer: metadata.issuer,
+        audience: this.config.clientId,
+        clockTolerance: this.config.clockTolerance,
+      }) as KenmonOIDCClaims
+
+      // With several audiences, the token must be issued to us
+      if (
+        Array.isArray(claims.aud) &&
+        claims.aud.length > 1 &&
+        claims.azp !== this.config.clientId
+      ) {
+        return null
+      }
+
+      return claims
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Find the signing key in the provider JWKS, refetching it once for an
+   * unknown `kid` so key rotations are picked up
+   */
+  private async getSigningKey(
+    metadata: KenmonOIDCProviderMetadata,
+    kid?: string,
+  ): Promise<KeyObject | null> {
+    const findKey = () =>
+      this.jwks?.keys.find(
+        (key) =>
+          (kid == null || key.kid === kid) && (key.use ?? 'sig') === 'sig',
+      )
+
+    let jwk = findKey()
+    if (
+      !jwk &&
+      (!this.jwks || Date.now() - this.jwks.fetchedAt >= jwksRefetchInterval)
+    ) {
+      const response = await fetch(metadata.jwks_uri, {
+        headers: { Accept: 'application/json' },
+      })
+      if (!response.ok) return null
+
+      const { keys } = (await response.json()) as { keys: JsonWebKey[] }
+      this.jwks = { keys, fetchedAt: Date.now() }
+      jwk = findKey()
+    }
+    if (!jwk) return null
+
+    return createPublicKey({ key: jwk, format: 'jwk' })
+  }
+
+  private createStatePayload(
+    intent: KenmonOIDCIntent,
+    codeVerifier: string,
+  ): StatePayload {
+    return {
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + stateTtl,
+      nonce: randomBytes(16).toString('hex'),
+      intent,
+      codeChallenge: this.createCodeChallenge(codeVerifier),
+    }
+  }
+
+  /**
+   * PKCE S256 code challenge
+   */
+  private createCodeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url')
+  }
+
+  /**
+   * Generate a JWT state token
+   */
+  private signStateToken(payload: StatePayload): string {
+    return jwt.sign(payload, this.config.secret)
+  }
+
+  /**
+   * Verify and decode a JWT state token
+   */
+  private verifyStateToken(token: string): StatePayload | null {
+    try {
+      const payload = jwt.verify(token, this.config.secret) as StatePayload
+      return payload
+    } catch (error) {
+      return null
+    }
+  }
+}
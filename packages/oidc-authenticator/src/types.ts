@@ -0,0 +1,88 @@
+import type { KenmonAdapter, KenmonIdentifier } from 'kenmon'
+
+export interface KenmonOIDCAuthenticatorConfig {
+  type?: string // Identifier type, default 'oidc'. Use one per provider (e.g. 'okta')
+  issuer: string // e.g. "https://example.okta.com", discovery is read from {issuer}/.well-known/openid-configuration
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+  secret: string // For signing JWT state tokens
+  adapter: KenmonAdapter // Sets the cookie binding the flow to the browser which started it
+  scopes?: string[] // Default: ['openid', 'email', 'profile']
+  tokenEndpointAuthMethod?: 'client_secret_basic' | 'client_secret_post' // Default: 'client_secret_basic'
+  clockTolerance?: number // seconds allowed for ID token clock skew, default 60
+  mapClaims?: (claims: KenmonOIDCClaims, type: string) => KenmonIdentifier
+  cookieName?: string // Default: 'kenmon-{type}', e.g. 'kenmon-oidc'
+  secure?: boolean // Default: NODE_ENV === 'production'
+}
+
+// Subset of the OpenID Provider Metadata used by the authenticator
+export interface KenmonOIDCProviderMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  userinfo_endpoint?: string
+  id_token_signing_alg_values_supported?: string[]
+}
+
+export interface KenmonOIDCClaims {
+  // Required by the spec
+  iss: string // Issuer
+  sub: string // Subject, the stable user ID at the provider
+  aud: string | string[] // Audience: your client ID
+  exp: number // Expiration timestamp
+  iat: number // Issued at timestamp
+  nonce?: string
+
+  // Standard claims, depending on scopes and provider
+  email?: string
+  email_verified?: boolean
+  name?: string
+  given_name?: string
+  family_name?: string
+  preferred_username?: string
+  picture?: string
+  locale?: string
+
+  [claim: string]: unknown
+}
+
+export interface KenmonOIDCData {
+  issuer: string
+  sub: string
+  email?: string
+  emailVerified?: boolean
+  name?: string
+  givenName?: string
+  familyName?: string
+  preferredUsername?: string
+  picture?: string
+  locale?: string
+}
+
+/**
+ * OIDC identifier with typed data
+ * Extends KenmonIdentifier with the standard claims of the ID token
+ */
+export interface KenmonOIDCIdentifier extends KenmonIdentifier {
+  type: string
+  value: string // `sub` claim
+  data: KenmonOIDCData
+}
+
+export type KenmonOIDCIntent = 'sign-in' | 'sign-up' | 'link'
+
+export interface StatePayload {
+  iat: number // Issued at timestamp
+  exp: number // Expires timestamp
+  nonce: string // Random nonce, echoed back in the ID token
+  intent: KenmonOIDCIntent // User intent
+  codeChallenge: string // PKCE S256 challenge of the code verifier in the cookie
+}
+
+export type KenmonOIDCErrorReason =
+  | 'invalid-state'
+  | 'discovery-failed'
+  | 'token-exchange-failed'
+  | 'invalid-id-token'
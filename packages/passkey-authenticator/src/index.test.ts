@@ -0,0 +1,522 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import crypto from 'crypto'
+import {
+  KenmonPasskeyAuthenticator,
+  KenmonPasskeyChallenge,
+  KenmonPasskeyCredential,
+  KenmonPasskeyError,
+  KenmonPasskeyStorage,
+  decodeCBOR,
+  encodeBase64url,
+  parseAuthenticatorData,
+} from './index'
+
+const rpId = 'example.com'
+const origin = 'https://example.com'
+
+class MockPasskeyStorage implements KenmonPasskeyStorage {
+  challenges = new Map<string, KenmonPasskeyChallenge>()
+  credentials = new Map<string, KenmonPasskeyCredential>()
+
+  async createChallenge(data: KenmonPasskeyChallenge) {
+    this.challenges.set(data.challenge, data)
+  }
+
+  async consumeChallenge(challenge: string) {
+    const data = this.challenges.get(challenge) ?? null
+    this.challenges.delete(challenge)
+    return data
+  }
+
+  async createCredential(
+    data: Omit<KenmonPasskeyCredential, 'id' | 'createdAt'>,
+  ) {
+    const id = 'passkey-' + Math.random().toString(36).slice(2, 9)
+    const credential = { ...data, id, createdAt: new Date() }
+    this.credentials.set(id, credential)
+    return credential
+  }
+
+  async getCredentialByCredentialId(credentialId: string) {
+    for (const credential of this.credentials.values()) {
+      if (credential.credentialId === credentialId) return credential
+    }
+    return null
+  }
+
+  async getCredentialsByUserId(userId: string) {
+    return [...this.credentials.values()].filter(
+      (credential) => credential.userId === userId,
+    )
+  }
+
+  async updateCredential(
+    id: string,
+    data: { counter: number; backedUp: boolean; lastUsedAt: Date },
+  ) {
+    const credential = this.credentials.get(id)
+    if (credential) Object.assign(credential, data)
+  }
+
+  async deleteCredential(id: string) {
+    this.credentials.delete(id)
+  }
+}
+
+// Minimal CBOR encoder for the values a software authenticator emits
+function encodeCBOR(value: unknown): Buffer {
+  const head = (majorType: number, length: number) => {
+    if (length < 24) return Buffer.from([(majorType << 5) | length])
+    if (length < 256) return Buffer.from([(majorType << 5) | 24, length])
+    const buffer = Buffer.alloc(3)
+    buffer[0] = (majorType << 5) | 25
+    buffer.writeUInt16BE(length, 1)
+    return buffer
+  }
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value)
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value)
+    return Buffer.concat([head(3, bytes.length), bytes])
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value])
+  }
+  if (value instanceof Map) {
+    return Buffer.concat([
+      head(5, value.size),
+      ...[...value].flatMap(([key, item]) => [
+        encodeCBOR(key),
+        encodeCBOR(item),
+      ]),
+    ])
+  }
+  throw new Error('Unsupported value')
+}
+
+// Software authenticator holding one P-256 or Ed25519 passkey
+class TestAuthenticator {
+  credentialId = crypto.randomBytes(16)
+  counter = 0
+  userVerified = true
+  private keyPair: crypto.KeyPairKeyObjectResult
+
+  constructor(private algorithm: 'ES256' | 'EdDSA' = 'ES256') {
+    this.keyPair =
+      algorithm === 'ES256'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : crypto.generateKeyPairSync('ed25519')
+  }
+
+  get id() {
+    return encodeBase64url(this.credentialId)
+  }
+
+  create(options: { challenge: string }, clientOrigin = origin) {
+    const clientDataJSON = this.clientData(
+      'webauthn.create',
+      options.challenge,
+      clientOrigin,
+    )
+    const authData = Buffer.concat([
+      this.authDataHeader(0x40),
+      Buffer.alloc(16), // AAGUID
+      Buffer.from([0, this.credentialId.length]),
+      this.credentialId,
+      this.cosePublicKey(),
+    ])
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: encodeBase64url(clientDataJSON),
+        attestationObject: encodeBase64url(
+          encodeCBOR(
+            new Map<string, unknown>([
+              ['fmt', 'none'],
+              ['attStmt', new Map()],
+              ['authData', authData],
+            ]),
+          ),
+        ),
+        transports: ['internal'],
+      },
+    }
+  }
+
+  get(options: { challenge: string }, userHandle?: string) {
+    const clientDataJSON = this.clientData(
+      'webauthn.get',
+      options.challenge,
+      origin,
+    )
+    const authenticatorData = this.authDataHeader(0)
+    const signedData = Buffer.concat([
+      authenticatorData,
+      crypto.createHash('sha256').update(clientDataJSON).digest(),
+    ])
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: encodeBase64url(clientDataJSON),
+        authenticatorData: encodeBase64url(authenticatorData),
+        signature: encodeBase64url(
+          crypto.sign(
+            this.algorithm === 'ES256' ? 'sha256' : null,
+            signedData,
+            this.keyPair.privateKey,
+          ),
+        ),
+        userHandle,
+      },
+    }
+  }
+
+  private clientData(type: string, challenge: string, clientOrigin: string) {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: clientOrigin }),
+    )
+  }
+
+  private authDataHeader(extraFlags: number) {
+    const header = Buffer.alloc(37)
+    crypto.createHash('sha256').update(rpId).digest().copy(header, 0)
+    header[32] = 0x01 | (this.userVerified ? 0x04 : 0) | extraFlags
+    header.writeUInt32BE(this.counter, 33)
+    return header
+  }
+
+  private cosePublicKey() {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' })
+    const x = Buffer.from(jwk.x!, 'base64url')
+    if (this.algorithm === 'EdDSA') {
+      return encodeCBOR(
+        new Map<number, unknown>([
+          [1, 1],
+          [3, -8],
+          [-1, 6],
+          [-2, x],
+        ]),
+      )
+    }
+    return encodeCBOR(
+      new Map<number, unknown>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, x],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ]),
+    )
+  }
+}
+
+describe('WebAuthn helpers', () => {
+  it('should decode CBOR maps with integer and text keys', () => {
+    const encoded = encodeCBOR(
+      new Map<unknown, unknown>([
+        [1, 2],
+        [-7, 'text'],
+        ['bytes', Buffer.from([1, 2, 3])],
+      ]),
+    )
+
+    const { value, offset } = decodeCBOR(encoded)
+
+    expect(offset).toBe(encoded.length)
+    expect(value).toEqual(
+      new Map<unknown, unknown>([
+        [1, 2],
+        [-7, 'text'],
+        ['bytes', Buffer.from([1, 2, 3])],
+      ]),
+    )
+  })
+
+  it('should parse authenticator data flags and counter', () => {
+    const authData = Buffer.alloc(37)
+    authData[32] = 0x01 | 0x04 | 0x08 | 0x10
+    authData.writeUInt32BE(42, 33)
+
+    expect(parseAuthenticatorData(authData)).toMatchObject({
+      userPresent: true,
+      userVerified: true,
+      backupEligible: true,
+      backedUp: true,
+      signCount: 42,
+    })
+  })
+})
+
+describe('KenmonPasskeyAuthenticator', () => {
+  let storage: MockPasskeyStorage
+  let authenticator: KenmonPasskeyAuthenticator
+  let device: TestAuthenticator
+
+  const register = async (userId = 'user-1', testDevice = device) => {
+    const optionsResult = await authenticator.generateRegistrationOptions({
+      userId,
+      userName: 'test@example.com',
+    })
+    if (!optionsResult.success) throw new Error('Failed to get options')
+
+    return authenticator.verifyRegistration({
+      userId,
+      response: testDevice.create(optionsResult.data),
+      name: 'Test device',
+    })
+  }
+
+  const authenticationOptions = async (userId?: string) => {
+    const optionsResult = await authenticator.generateAuthenticationOptions({
+      userId,
+    })
+    if (!optionsResult.success) throw new Error('Failed to get options')
+    return optionsResult.data
+  }
+
+  const expectPasskeyError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonPasskeyError)
+    expect((result.error as KenmonPasskeyError).reason).toBe(reason)
+  }
+
+  beforeEach(() => {
+    storage = new MockPasskeyStorage()
+    authenticator = new KenmonPasskeyAuthenticator({
+      passkeyStorage: storage,
+      rpId,
+      rpName: 'Kenmon',
+      origin,
+    })
+    device = new TestAuthenticator()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('registration', () => {
+    it('should generate options excluding registered passkeys', async () => {
+      await register()
+
+      const result = await authenticator.generateRegistrationOptions({
+        userId: 'user-1',
+        userName: 'test@example.com',
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toMatchObject({
+          rp: { id: rpId, name: 'Kenmon' },
+          user: {
+            id: encodeBase64url(Buffer.from('user-1')),
+            name: 'test@example.com',
+            displayName: 'test@example.com',
+          },
+          pubKeyCredParams: [
+            { type: 'public-key', alg: -7 },
+            { type: 'public-key', alg: -8 },
+            { type: 'public-key', alg: -257 },
+          ],
+          excludeCredentials: [
+            { type: 'public-key', id: device.id, transports: ['internal'] },
+          ],
+          attestation: 'none',
+        })
+      }
+    })
+
+    it('should verify registration and store the credential', async () => {
+      const result = await register()
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({ type: 'passkey', value: device.id })
+      }
+      expect(await authenticator.listCredentials('user-1')).toEqual([
+        expect.objectContaining({
+          userId: 'user-1',
+          credentialId: device.id,
+          counter: 0,
+          transports: ['internal'],
+          name: 'Test device',
+        }),
+      ])
+    })
+
+    it('should register Ed25519 passkeys', async () => {
+      const edDevice = new TestAuthenticator('EdDSA')
+      await register('user-1', edDevice)
+
+      const options = await authenticationOptions()
+      const result = await authenticator.verifySignIn(edDevice.get(options))
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject responses from another origin', async () => {
+      const optionsResult = await authenticator.generateRegistrationOptions({
+        userId: 'user-1',
+        userName: 'test@example.com',
+      })
+      if (!optionsResult.success) throw new Error('Failed to get options')
+
+      const result = await authenticator.verifyRegistration({
+        userId: 'user-1',
+        response: device.create(optionsResult.data, 'https://evil.example'),
+      })
+
+      expectPasskeyError(result, 'invalid-response')
+    })
+
+    it('should reject challenges issued for another user', async () => {
+      const optionsResult = await authenticator.generateRegistrationOptions({
+        userId: 'user-1',
+        userName: 'test@example.com',
+      })
+      if (!optionsResult.success) throw new Error('Failed to get options')
+
+      const result = await authenticator.verifyRegistration({
+        userId: 'user-2',
+        response: device.create(optionsResult.data),
+      })
+
+      expectPasskeyError(result, 'invalid-challenge')
+    })
+
+    it('should require user verification by default', async () => {
+      device.userVerified = false
+
+      const result = await register()
+
+      expectPasskeyError(result, 'invalid-response')
+    })
+
+    it('should not register the same passkey twice', async () => {
+      await register()
+
+      const result = await register()
+
+      expectPasskeyError(result, 'already-registered')
+    })
+  })
+
+  describe('authentication', () => {
+    beforeEach(async () => {
+      await register()
+    })
+
+    it('should sign in with a discoverable passkey', async () => {
+      const options = await authenticationOptions()
+      expect(options.allowCredentials).toEqual([])
+
+      const result = await authenticator.verifySignIn(
+        device.get(options, encodeBase64url(Buffer.from('user-1'))),
+      )
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({ type: 'passkey', value: device.id })
+      }
+    })
+
+    it('should verify a second factor for the user', async () => {
+      const options = await authenticationOptions('user-1')
+      expect(options.allowCredentials).toEqual([
+        { type: 'public-key', id: device.id, transports: ['internal'] },
+      ])
+
+      const result = await authenticator.verifySecondFactor({
+        userId: 'user-1',
+        response: device.get(options),
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({ type: 'passkey', value: 'user-1' })
+      }
+    })
+
+    it('should reject passkeys of another user as a second factor', async () => {
+      const otherDevice = new TestAuthenticator()
+      await register('user-2', otherDevice)
+      const options = await authenticationOptions('user-1')
+
+      const result = await authenticator.verifySecondFactor({
+        userId: 'user-1',
+        response: otherDevice.get(options),
+      })
+
+      expectPasskeyError(result, 'credential-not-found')
+    })
+
+    it('should accept each challenge once', async () => {
+      const options = await authenticationOptions()
+      const response = device.get(options)
+      await authenticator.verifySignIn(response)
+
+      const result = await authenticator.verifySignIn(response)
+
+      expectPasskeyError(result, 'invalid-challenge')
+    })
+
+    it('should reject expired challenges', async () => {
+      const options = await authenticationOptions()
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(Date.now() + 301 * 1000)
+
+      const result = await authenticator.verifySignIn(device.get(options))
+
+      expectPasskeyError(result, 'invalid-challenge')
+    })
+
+    it('should reject invalid signatures', async () => {
+      const options = await authenticationOptions()
+      const response = device.get(options)
+      response.response.signature = device.get(
+        await authenticationOptions(),
+      ).response.signature
+
+      const result = await authenticator.verifySignIn(response)
+
+      expectPasskeyError(result, 'invalid-signature')
+    })
+
+    it('should track the signature counter', async () => {
+      device.counter = 5
+      const firstResult = await authenticator.verifySignIn(
+        device.get(await authenticationOptions()),
+      )
+      expect(firstResult.success).toBe(true)
+
+      // A clone of the authenticator replays an older counter
+      device.counter = 3
+      const result = await authenticator.verifySignIn(
+        device.get(await authenticationOptions()),
+      )
+
+      expectPasskeyError(result, 'counter-mismatch')
+    })
+
+    it('should fail for removed passkeys', async () => {
+      await authenticator.removeCredential('user-1', device.id)
+
+      const result = await authenticator.verifySignIn(
+        device.get(await authenticationOptions()),
+      )
+
+      expectPasskeyError(result, 'credential-not-found')
+    })
+  })
+})
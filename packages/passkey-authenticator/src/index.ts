@@ -0,0 +1,668 @@
+import crypto from 'crypto'
+import { z } from 'zod'
+import {
+  KenmonIdentifier,
+  KenmonReturnType,
+  KenmonError,
+  KenmonInvalidPayloadError,
+} from 'kenmon'
+import {
+  KENMON_PASSKEY_ALGORITHMS,
+  KenmonAuthenticatorData,
+  decodeBase64url,
+  decodeCBOR,
+  encodeBase64url,
+  importCOSEPublicKey,
+  parseAuthenticatorData,
+  verifyAssertionSignature,
+} from './webauthn'
+
+export * from './webauthn'
+
+// Passkey-specific error with reason discriminator
+export type KenmonPasskeyErrorReason =
+  | 'invalid-challenge'
+  | 'invalid-response'
+  | 'unsupported-algorithm'
+  | 'already-registered'
+  | 'credential-not-found'
+  | 'invalid-signature'
+  | 'counter-mismatch'
+
+export interface KenmonPasskeyCredential {
+  id: string
+  userId: string
+  credentialId: string // base64url, as sent by the browser
+  publicKey: string // base64url COSE_Key
+  counter: number // signature counter, 0 for authenticators without one
+  transports: string[] // e.g. ['internal', 'hybrid'], hints for the browser
+  backedUp: boolean // synced to other devices, e.g. iCloud Keychain
+  name?: string
+  createdAt: Date
+  lastUsedAt?: Date
+}
+
+export interface KenmonPasskeyChallenge {
+  challenge: string // base64url
+  ceremony: 'registration' | 'authentication'
+  userId?: string // set for registration and second-factor authentication
+  expiresAt: Date
+}
+
+export class KenmonPasskeyError extends KenmonError {
+  readonly reason: KenmonPasskeyErrorReason
+
+  constructor(reason: KenmonPasskeyErrorReason) {
+    const messages: Record<KenmonPasskeyErrorReason, string> = {
+      'invalid-challenge': 'Passkey challenge is invalid, expired or used',
+      'invalid-response': 'Invalid passkey response',
+      'unsupported-algorithm': 'Passkey algorithm is not supported',
+      'already-registered': 'Passkey is already registered',
+      'credential-not-found': 'Passkey not found',
+      'invalid-signature': 'Invalid passkey signature',
+      'counter-mismatch':
+        'Passkey signature counter did not increase, it may have been cloned',
+    }
+
+    super(messages[reason])
+    this.name = 'KenmonPasskeyError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonPasskeyError.prototype)
+  }
+}
+
+// JSON forms of the WebAuthn options, for `PublicKeyCredential.parseCreationOptionsFromJSON()`
+// and `parseRequestOptionsFromJSON()` in the browser
+export interface KenmonPasskeyRegistrationOptions {
+  rp: { id: string; name: string }
+  user: { id: string; name: string; displayName: string }
+  challenge: string
+  pubKeyCredParams: { type: 'public-key'; alg: number }[]
+  timeout: number // milliseconds
+  excludeCredentials: {
+    type: 'public-key'
+    id: string
+    transports?: string[]
+  }[]
+  authenticatorSelection: {
+    residentKey: 'required'
+    userVerification: KenmonPasskeyUserVerification
+  }
+  attestation: 'none'
+}
+
+export interface KenmonPasskeyAuthenticationOptions {
+  rpId: string
+  challenge: string
+  timeout: number // milliseconds
+  allowCredentials: {
+    type: 'public-key'
+    id: string
+    transports?: string[]
+  }[]
+  userVerification: KenmonPasskeyUserVerification
+}
+
+export type KenmonPasskeyUserVerification =
+  | 'required'
+  | 'preferred'
+  | 'discouraged'
+
+// Zod schemas for payload validation, matching `PublicKeyCredential.toJSON()`
+const registrationOptionsDataSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+  userName: z.string().min(1, 'User name is required'),
+  userDisplayName: z.string().optional(),
+})
+
+const registrationResponseSchema = z.object({
+  id: z.base64url(),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: z.base64url(),
+    attestationObject: z.base64url(),
+    transports: z.array(z.string()).optional(),
+  }),
+})
+
+const authenticationResponseSchema = z.object({
+  id: z.base64url(),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: z.base64url(),
+    authenticatorData: z.base64url(),
+    signature: z.base64url(),
+    userHandle: z.base64url().nullish(),
+  }),
+})
+
+export type KenmonPasskeyRegistrationResponse = z.input<
+  typeof registrationResponseSchema
+>
+export type KenmonPasskeyAuthenticationResponse = z.input<
+  typeof authenticationResponseSchema
+>
+
+// Passkey Storage interface
+export interface KenmonPasskeyStorage {
+  createChallenge(data: KenmonPasskeyChallenge): Promise<void>
+  // Delete and return the challenge atomically, so each one is accepted once
+  consumeChallenge(challenge: string): Promise<KenmonPasskeyChallenge | null>
+  createCredential(data: {
+    userId: string
+    credentialId: string
+    publicKey: string
+    counter: number
+    transports: string[]
+    backedUp: boolean
+    name?: string
+  }): Promise<KenmonPasskeyCredential>
+  getCredentialByCredentialId(
+    credentialId: string,
+  ): Promise<KenmonPasskeyCredential | null>
+  getCredentialsByUserId(userId: string): Promise<KenmonPasskeyCredential[]>
+  updateCredential(
+    id: string,
+    data: { counter: number; backedUp: boolean; lastUsedAt: Date },
+  ): Promise<void>
+  deleteCredential(id: string): Promise<void>
+}
+
+// Passkey Authenticator configuration
+export interface KenmonPasskeyAuthenticatorConfig {
+  passkeyStorage: KenmonPasskeyStorage
+  rpId: string // Domain passkeys are scoped to, e.g. 'example.com'
+  rpName: string // Shown by the browser, e.g. your product name
+  origin: string | string[] // Allowed origins, e.g. 'https://app.example.com'
+  challengeTtl?: number // seconds, default 300
+  userVerification?: KenmonPasskeyUserVerification // default 'required'
+}
+
+export class KenmonPasskeyAuthenticator {
+  readonly type = 'passkey'
+
+  private passkeyStorage: KenmonPasskeyStorage
+  private rpId: string
+  private rpName: string
+  private origins: string[]
+  private challengeTtl: number
+  private userVerification: KenmonPasskeyUserVerification
+
+  constructor(config: KenmonPasskeyAuthenticatorConfig) {
+    this.passkeyStorage = config.passkeyStorage
+    this.rpId = config.rpId
+    this.rpName = config.rpName
+    this.origins = Array.isArray(config.origin)
+      ? config.origin
+      : [config.origin]
+    this.challengeTtl = config.challengeTtl ?? 300
+    this.userVerification = config.userVerification ?? 'required'
+  }
+
+  /**
+   * Start registering a passkey for a signed-in user.
+   * Pass the options to `navigator.credentials.create()`.
+   * @param userName - Shown in the passkey picker (e.g. email)
+   */
+  async generateRegistrationOptions(payload: {
+    userId: string
+    userName: string
+    userDisplayName?: string
+  }): Promise<KenmonReturnType<KenmonPasskeyRegistrationOptions>> {
+    const result = registrationOptionsDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { userId, userName, userDisplayName } = result.data
+
+    try {
+      const challenge = await this.createChallenge('registration', userId)
+      const credentials =
+        await this.passkeyStorage.getCredentialsByUserId(userId)
+
+      return {
+        success: true,
+        data: {
+          rp: { id: this.rpId, name: this.rpName },
+          user: {
+            id: encodeBase64url(Buffer.from(userId)),
+            name: userName,
+            displayName: userDisplayName ?? userName,
+          },
+          challenge,
+          pubKeyCredParams: Object.values(KENMON_PASSKEY_ALGORITHMS).map(
+            (alg) => ({ type: 'public-key' as const, alg }),
+          ),
+          timeout: this.challengeTtl * 1000,
+          // Stop the same authenticator from being registered twice
+          excludeCredentials: credentials.map((credential) => ({
+            type: 'public-key' as const,
+            id: credential.credentialId,
+            transports: credential.transports,
+          })),
+          authenticatorSelection: {
+            residentKey: 'required',
+            userVerification: this.userVerification,
+          },
+          attestation: 'none',
+        },
+      }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Verify the result of `navigator.credentials.create()` and store the passkey.
+   * Call `auth.linkIdentifier(userId, identifier)` to enable signing in with it.
+   * @returns Identifier with the credential ID as its value
+   */
+  async verifyRegistration(payload: {
+    userId: string
+    response: KenmonPasskeyRegistrationResponse
+    name?: string // e.g. 'MacBook', to tell passkeys apart
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    const result = registrationResponseSchema.safeParse(payload.response)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { id, response } = result.data
+
+    try {
+      const clientDataJSON = decodeBase64url(response.clientDataJSON)
+      const challenge = await this.consumeChallenge(
+        clientDataJSON,
+        'webauthn.create',
+      )
+      if (!challenge.success) {
+        return challenge
+      }
+      if (challenge.data.userId !== payload.userId) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('invalid-challenge'),
+        }
+      }
+
+      const authData = this.parseAttestationObject(
+        decodeBase64url(response.attestationObject),
+      )
+      const attestedCredential = authData?.attestedCredential
+      if (
+        !authData ||
+        !attestedCredential ||
+        !this.isAuthenticatorDataValid(authData) ||
+        encodeBase64url(attestedCredential.credentialId) !== id
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('invalid-response'),
+        }
+      }
+
+      // Attestation statements are not verified (`attestation: 'none'`), so
+      // only the key and the algorithm are checked
+      try {
+        importCOSEPublicKey(attestedCredential.publicKey)
+      } catch {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('unsupported-algorithm'),
+        }
+      }
+
+      const existing = await this.passkeyStorage.getCredentialByCredentialId(id)
+      if (existing) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('already-registered'),
+        }
+      }
+
+      await this.passkeyStorage.createCredential({
+        userId: payload.userId,
+        credentialId: id,
+        publicKey: encodeBase64url(attestedCredential.publicKey),
+        counter: authData.signCount,
+        transports: response.transports ?? [],
+        backedUp: authData.backedUp,
+        name: payload.name,
+      })
+
+      return { success: true, data: { type: 'passkey', value: id } }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Start a passkey sign in, or a second-factor check when `userId` is given.
+   * Pass the options to `navigator.credentials.get()`.
+   */
+  async generateAuthenticationOptions(options?: {
+    userId?: string
+  }): Promise<KenmonReturnType<KenmonPasskeyAuthenticationOptions>> {
+    try {
+      const userId = options?.userId
+      const challenge = await this.createChallenge('authentication', userId)
+      // Without a user, the browser offers discoverable passkeys for the site
+      const credentials = userId
+        ? await this.passkeyStorage.getCredentialsByUserId(userId)
+        : []
+
+      return {
+        success: true,
+        data: {
+          rpId: this.rpId,
+          challenge,
+          timeout: this.challengeTtl * 1000,
+          allowCredentials: credentials.map((credential) => ({
+            type: 'public-key' as const,
+            id: credential.credentialId,
+            transports: credential.transports,
+          })),
+          userVerification: this.userVerification,
+        },
+      }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Verify the result of `navigator.credentials.get()` as a primary sign in.
+   * Pass the returned identifier to `auth.signIn()`.
+   * @returns Identifier with the credential ID as its value
+   */
+  async verifySignIn(
+    response: KenmonPasskeyAuthenticationResponse,
+  ): Promise<KenmonReturnType<KenmonIdentifier>> {
+    const result = await this.verifyAssertion(response)
+    if (!result.success) {
+      return result
+    }
+
+    return {
+      success: true,
+      data: { type: 'passkey', value: result.data.credentialId },
+    }
+  }
+
+  /**
+   * Verify the result of `navigator.credentials.get()` as a second factor.
+   * Pass the returned identifier to `auth.verifyMfa()`.
+   */
+  async verifySecondFactor(payload: {
+    userId: string
+    response: KenmonPasskeyAuthenticationResponse
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    const result = await this.verifyAssertion(payload.response, payload.userId)
+    if (!result.success) {
+      return result
+    }
+
+    // Second-factor identifiers carry the user ID as their value
+    return {
+      success: true,
+      data: { type: 'passkey', value: payload.userId },
+    }
+  }
+
+  async listCredentials(userId: string): Promise<KenmonPasskeyCredential[]> {
+    return this.passkeyStorage.getCredentialsByUserId(userId)
+  }
+
+  /**
+   * Remove a passkey of a user.
+   * Call `auth.unlinkIdentifier(userId, { type: 'passkey', value: credentialId })`
+   * alongside, and `auth.disableMfa(userId)` if it was the only second factor.
+   */
+  async removeCredential(
+    userId: string,
+    credentialId: string,
+  ): Promise<KenmonReturnType<void>> {
+    try {
+      const credential =
+        await this.passkeyStorage.getCredentialByCredentialId(credentialId)
+      if (!credential || credential.userId !== userId) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('credential-not-found'),
+        }
+      }
+
+      await this.passkeyStorage.deleteCredential(credential.id)
+
+      return { success: true, data: undefined }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  private async verifyAssertion(
+    payload: KenmonPasskeyAuthenticationResponse,
+    userId?: string,
+  ): Promise<KenmonReturnType<KenmonPasskeyCredential>> {
+    const result = authenticationResponseSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { id, response } = result.data
+
+    try {
+      const clientDataJSON = decodeBase64url(response.clientDataJSON)
+      const challenge = await this.consumeChallenge(
+        clientDataJSON,
+        'webauthn.get',
+      )
+      if (!challenge.success) {
+        return challenge
+      }
+      // Second-factor challenges are bound to the user they were issued for
+      if (userId && challenge.data.userId !== userId) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('invalid-challenge'),
+        }
+      }
+
+      const credential =
+        await this.passkeyStorage.getCredentialByCredentialId(id)
+      const expectedUserId = userId ?? challenge.data.userId
+      if (
+        !credential ||
+        (expectedUserId && credential.userId !== expectedUserId)
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('credential-not-found'),
+        }
+      }
+
+      const authenticatorData = decodeBase64url(response.authenticatorData)
+      const authData = this.parseAuthenticatorData(authenticatorData)
+      if (
+        !authData ||
+        !this.isAuthenticatorDataValid(authData) ||
+        (response.userHandle &&
+          response.userHandle !==
+            encodeBase64url(Buffer.from(credential.userId)))
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('invalid-response'),
+        }
+      }
+
+      if (
+        !this.isSignatureValid(
+          credential,
+          authenticatorData,
+          clientDataJSON,
+          decodeBase64url(response.signature),
+        )
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('invalid-signature'),
+        }
+      }
+
+      // Counters must increase, unless the authenticator doesn't keep one
+      // (synced passkeys always report 0)
+      if (
+        (authData.signCount > 0 || credential.counter > 0) &&
+        authData.signCount <= credential.counter
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasskeyError('counter-mismatch'),
+        }
+      }
+
+      await this.passkeyStorage.updateCredential(credential.id, {
+        counter: authData.signCount,
+        backedUp: authData.backedUp,
+        lastUsedAt: new Date(),
+      })
+
+      return { success: true, data: credential }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  private async createChallenge(
+    ceremony: KenmonPasskeyChallenge['ceremony'],
+    userId?: string,
+  ): Promise<string> {
+    const challenge = encodeBase64url(crypto.randomBytes(32))
+
+    await this.passkeyStorage.createChallenge({
+      challenge,
+      ceremony,
+      userId,
+      expiresAt: new Date(Date.now() + this.challengeTtl * 1000),
+    })
+
+    return challenge
+  }
+
+  /**
+   * Check the client data of a ceremony and consume its challenge
+   */
+  private async consumeChallenge(
+    clientDataJSON: Buffer,
+    type: 'webauthn.create' | 'webauthn.get',
+  ): Promise<KenmonReturnType<KenmonPasskeyChallenge>> {
+    let clientData: {
+      type?: unknown
+      challenge?: unknown
+      origin?: unknown
+      crossOrigin?: unknown
+    }
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'))
+    } catch {
+      return {
+        success: false,
+        error: new KenmonPasskeyError('invalid-response'),
+      }
+    }
+
+    if (
+      clientData.type !== type ||
+      typeof clientData.challenge !== 'string' ||
+      !this.origins.includes(clientData.origin as string) ||
+      clientData.crossOrigin === true
+    ) {
+      return {
+        success: false,
+        error: new KenmonPasskeyError('invalid-response'),
+      }
+    }
+
+    const challenge = await this.passkeyStorage.consumeChallenge(
+      clientData.challenge,
+    )
+    const ceremony =
+      type === 'webauthn.create' ? 'registration' : 'authentication'
+    if (
+      !challenge ||
+      challenge.ceremony !== ceremony ||
+      challenge.expiresAt.getTime() <= Date.now()
+    ) {
+      return {
+        success: false,
+        error: new KenmonPasskeyError('invalid-challenge'),
+      }
+    }
+
+    return { success: true, data: challenge }
+  }
+
+  private parseAttestationObject(
+    attestationObject: Buffer,
+  ): KenmonAuthenticatorData | null {
+    try {
+      const { value } = decodeCBOR(attestationObject)
+      const authData = value instanceof Map ? value.get('authData') : undefined
+      return Buffer.isBuffer(authData)
+        ? this.parseAuthenticatorData(authData)
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  private parseAuthenticatorData(
+    authData: Buffer,
+  ): KenmonAuthenticatorData | null {
+    try {
+      return parseAuthenticatorData(authData)
+    } catch {
+      return null
+    }
+  }
+
+  private isSignatureValid(
+    credential: KenmonPasskeyCredential,
+    authenticatorData: Buffer,
+    clientDataJSON: Buffer,
+    signature: Buffer,
+  ): boolean {
+    try {
+      return verifyAssertionSignature(
+        decodeBase64url(credential.publicKey),
+        authenticatorData,
+        clientDataJSON,
+        signature,
+      )
+    } catch {
+      // Malformed signatures throw instead of failing verification
+      return false
+    }
+  }
+
+  private isAuthenticatorDataValid(authData: KenmonAuthenticatorData): boolean {
+    const rpIdHash = crypto.createHash('sha256').update(this.rpId).digest()
+
+    return (
+      authData.rpIdHash.equals(rpIdHash) &&
+      authData.userPresent &&
+      (this.userVerification !== 'required' || authData.userVerified)
+    )
+  }
+}
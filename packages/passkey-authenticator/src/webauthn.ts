@@ -0,0 +1,240 @@
+import crypto from 'crypto'
+
+// COSE algorithm identifiers offered in `pubKeyCredParams`, in order of preference
+export const KENMON_PASSKEY_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const
+
+export type KenmonPasskeyAlgorithm =
+  (typeof KENMON_PASSKEY_ALGORITHMS)[keyof typeof KENMON_PASSKEY_ALGORITHMS]
+
+export interface KenmonAuthenticatorData {
+  rpIdHash: Buffer
+  userPresent: boolean // UP flag
+  userVerified: boolean // UV flag
+  backupEligible: boolean // BE flag, e.g. a synced passkey
+  backedUp: boolean // BS flag
+  signCount: number
+  attestedCredential?: {
+    aaguid: Buffer
+    credentialId: Buffer
+    publicKey: Buffer // COSE_Key
+  }
+}
+
+export function encodeBase64url(buffer: Buffer): string {
+  return buffer.toString('base64url')
+}
+
+export function decodeBase64url(value: string): Buffer {
+  return Buffer.from(value, 'base64url')
+}
+
+/**
+ * Decodes the subset of CBOR (RFC 8949) used by WebAuthn: integers, byte and
+ * text strings, arrays, maps and simple values. Indefinite lengths and floats
+ * are rejected since authenticators must use the canonical encoding.
+ * @returns The decoded value and the offset right after it
+ */
+export function decodeCBOR(
+  buffer: Buffer,
+  offset = 0,
+): { value: unknown; offset: number } {
+  if (offset >= buffer.length) {
+    throw new Error('Unexpected end of CBOR data')
+  }
+
+  const initial = buffer[offset++]
+  const majorType = initial >> 5
+  const info = initial & 0x1f
+
+  let length: number
+  if (info < 24) {
+    length = info
+  } else if (info === 24) {
+    length = buffer.readUInt8(offset)
+    offset += 1
+  } else if (info === 25) {
+    length = buffer.readUInt16BE(offset)
+    offset += 2
+  } else if (info === 26) {
+    length = buffer.readUInt32BE(offset)
+    offset += 4
+  } else if (info === 27) {
+    length = Number(buffer.readBigUInt64BE(offset))
+    offset += 8
+  } else {
+    throw new Error('Unsupported CBOR length encoding')
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: length, offset }
+    case 1:
+      return { value: -1 - length, offset }
+    case 2:
+    case 3: {
+      if (offset + length > buffer.length) {
+        throw new Error('Unexpected end of CBOR data')
+      }
+      const bytes = buffer.subarray(offset, offset + length)
+      return {
+        value: majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8'),
+        offset: offset + length,
+      }
+    }
+    case 4: {
+      const items: unknown[] = []
+      for (let i = 0; i < length; i++) {
+        const item = decodeCBOR(buffer, offset)
+        items.push(item.value)
+        offset = item.offset
+      }
+      return { value: items, offset }
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>()
+      for (let i = 0; i < length; i++) {
+        const key = decodeCBOR(buffer, offset)
+        const value = decodeCBOR(buffer, key.offset)
+        map.set(key.value, value.value)
+        offset = value.offset
+      }
+      return { value: map, offset }
+    }
+    case 7:
+      if (info === 20) return { value: false, offset }
+      if (info === 21) return { value: true, offset }
+      if (info === 22) return { value: null, offset }
+      throw new Error('Unsupported CBOR simple value')
+    default:
+      throw new Error('Unsupported CBOR major type')
+  }
+}
+
+/**
+ * Parses authenticator data, including the attested credential when the
+ * AT flag is set (registration only).
+ */
+export function parseAuthenticatorData(
+  authData: Buffer,
+): KenmonAuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Authenticator data is too short')
+  }
+
+  const flags = authData[32]
+  const data: KenmonAuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    userPresent: (flags & 0x01) !== 0,
+    userVerified: (flags & 0x04) !== 0,
+    backupEligible: (flags & 0x08) !== 0,
+    backedUp: (flags & 0x10) !== 0,
+    signCount: authData.readUInt32BE(33),
+  }
+
+  if (flags & 0x40) {
+    const aaguid = authData.subarray(37, 53)
+    const credentialIdLength = authData.readUInt16BE(53)
+    const credentialId = authData.subarray(55, 55 + credentialIdLength)
+    const publicKeyStart = 55 + credentialIdLength
+    // The key is followed by extensions when the ED flag is set, so its end
+    // is only known after decoding it
+    const { offset } = decodeCBOR(authData, publicKeyStart)
+
+    data.attestedCredential = {
+      aaguid,
+      credentialId,
+      publicKey: authData.subarray(publicKeyStart, offset),
+    }
+  }
+
+  return data
+}
+
+/**
+ * Reads the COSE algorithm of a public key
+ */
+export function getCOSEAlgorithm(cosePublicKey: Buffer): number {
+  const key = decodeCBOR(cosePublicKey).value as Map<number, unknown>
+  return key.get(3) as number
+}
+
+/**
+ * Converts a COSE_Key (RFC 9053) into a Node.js public key. Supports the
+ * algorithms in `KENMON_PASSKEY_ALGORITHMS`.
+ */
+export function importCOSEPublicKey(cosePublicKey: Buffer): crypto.KeyObject {
+  const key = decodeCBOR(cosePublicKey).value
+  if (!(key instanceof Map)) {
+    throw new Error('Invalid COSE key')
+  }
+
+  const kty = key.get(1)
+  const alg = key.get(3)
+  const param = (label: number) => {
+    const value = key.get(label)
+    if (!Buffer.isBuffer(value)) {
+      throw new Error('Invalid COSE key')
+    }
+    return encodeBase64url(value)
+  }
+
+  // EC2 on P-256
+  if (
+    kty === 2 &&
+    alg === KENMON_PASSKEY_ALGORITHMS.ES256 &&
+    key.get(-1) === 1
+  ) {
+    return crypto.createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: param(-2), y: param(-3) },
+      format: 'jwk',
+    })
+  }
+  // OKP on Ed25519
+  if (
+    kty === 1 &&
+    alg === KENMON_PASSKEY_ALGORITHMS.EdDSA &&
+    key.get(-1) === 6
+  ) {
+    return crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: param(-2) },
+      format: 'jwk',
+    })
+  }
+  if (kty === 3 && alg === KENMON_PASSKEY_ALGORITHMS.RS256) {
+    return crypto.createPublicKey({
+      key: { kty: 'RSA', n: param(-1), e: param(-2) },
+      format: 'jwk',
+    })
+  }
+
+  throw new Error('Unsupported COSE key')
+}
+
+/**
+ * Verifies an assertion signature over `authenticatorData || SHA-256(clientDataJSON)`
+ */
+export function verifyAssertionSignature(
+  cosePublicKey: Buffer,
+  authenticatorData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer,
+): boolean {
+  const algorithm = getCOSEAlgorithm(cosePublicKey)
+  const publicKey = importCOSEPublicKey(cosePublicKey)
+  const signedData = Buffer.concat([
+    authenticatorData,
+    crypto.createHash('sha256').update(clientDataJSON).digest(),
+  ])
+
+  // EdDSA hashes internally, ES256 signatures are DER encoded
+  return crypto.verify(
+    algorithm === KENMON_PASSKEY_ALGORITHMS.EdDSA ? null : 'sha256',
+    signedData,
+    publicKey,
+    signature,
+  )
+}
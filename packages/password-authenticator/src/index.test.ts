@@ -0,0 +1,541 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  KenmonPasswordAuthenticator,
+  KenmonPasswordAuthenticatorConfig,
+  KenmonPasswordStorage,
+  KenmonPasswordCredential,
+  KenmonPasswordReset,
+  KenmonPasswordError,
+  checkPasswordPolicy,
+  hashPassword,
+  needsRehash,
+  verifyPasswordHash,
+} from './index'
+import {
+  KenmonMailer,
+  KenmonSendEmailParams,
+  KenmonRateLimiter,
+  KenmonRateLimitedError,
+  KenmonInvalidPayloadError,
+} from 'kenmon'
+
+// Mock dependencies
+class MockMailer implements KenmonMailer {
+  sentEmails: KenmonSendEmailParams[] = []
+
+  async sendEmail(params: KenmonSendEmailParams): Promise<void> {
+    this.sentEmails.push(params)
+  }
+
+  // Read the link out of the last email, like a user would
+  getLastLink(): { resetId: string; token: string } {
+    const textContent = this.sentEmails.at(-1)?.textContent ?? ''
+    const url = new URL(textContent.match(/https:\/\/\S+/)![0])
+    return {
+      resetId: url.searchParams.get('id')!,
+      token: url.searchParams.get('token')!,
+    }
+  }
+}
+
+class MockPasswordStorage implements KenmonPasswordStorage {
+  credentials = new Map<string, KenmonPasswordCredential>()
+  resets = new Map<string, KenmonPasswordReset>()
+
+  async createCredential(data: {
+    username: string
+    email: string
+    passwordHash: string
+  }) {
+    const id = 'credential-' + Math.random().toString(36).slice(2, 9)
+    const credential = {
+      id,
+      ...data,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    this.credentials.set(id, credential)
+    return credential
+  }
+
+  async getCredentialById(id: string) {
+    return this.credentials.get(id) || null
+  }
+
+  async getCredentialByUsername(username: string) {
+    return (
+      [...this.credentials.values()].find(
+        (credential) => credential.username === username,
+      ) || null
+    )
+  }
+
+  async updatePasswordHash(id: string, passwordHash: string) {
+    const credential = this.credentials.get(id)
+    if (credential) {
+      credential.passwordHash = passwordHash
+      credential.updatedAt = new Date()
+    }
+  }
+
+  async rehashPassword(id: string, passwordHash: string) {
+    const credential = this.credentials.get(id)
+    if (credential) {
+      credential.passwordHash = passwordHash
+    }
+  }
+
+  async createPasswordReset(data: {
+    credentialId: string
+    tokenHash: string
+    expiresAt: Date
+  }) {
+    const id = 'reset-' + Math.random().toString(36).slice(2, 9)
+    const reset = { id, ...data, used: false, createdAt: new Date() }
+    this.resets.set(id, reset)
+    return reset
+  }
+
+  async getPasswordResetById(id: string) {
+    return this.resets.get(id) || null
+  }
+
+  async markPasswordResetAsUsed(id: string) {
+    const reset = this.resets.get(id)
+    if (!reset || reset.used) {
+      return false
+    }
+    reset.used = true
+    return true
+  }
+}
+
+describe('KenmonPasswordAuthenticator', () => {
+  let authenticator: KenmonPasswordAuthenticator
+  let mailer: MockMailer
+  let storage: MockPasswordStorage
+
+  // Low cost keeps the tests fast
+  const createAuthenticator = (
+    config?: Partial<KenmonPasswordAuthenticatorConfig>,
+  ) =>
+    new KenmonPasswordAuthenticator({
+      mailer,
+      passwordStorage: storage,
+      resetUrl: 'https://example.com/auth/reset-password',
+      emailFrom: 'noreply@example.com',
+      hashing: { cost: 10 },
+      ...config,
+    })
+
+  beforeEach(async () => {
+    mailer = new MockMailer()
+    storage = new MockPasswordStorage()
+    authenticator = createAuthenticator()
+
+    await authenticator.register({
+      username: 'Alice',
+      email: 'alice@example.com',
+      password: 'correct horse battery',
+    })
+  })
+
+  const expectPasswordError = (
+    result: { success: boolean; error?: Error },
+    reason: string,
+  ) => {
+    expect(result.success).toBe(false)
+    expect(result.error).toBeInstanceOf(KenmonPasswordError)
+    expect((result.error as KenmonPasswordError).reason).toBe(reason)
+  }
+
+  describe('register', () => {
+    it('should store a salted hash', async () => {
+      const result = await authenticator.register({
+        username: 'bob',
+        email: 'bob@example.com',
+        password: 'correct horse battery',
+      })
+
+      expect(result).toEqual({
+        success: true,
+        data: { type: 'password', value: 'bob' },
+      })
+      const [alice, bob] = [...storage.credentials.values()]
+      expect(bob.passwordHash).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$/)
+      expect(bob.passwordHash).not.toContain('correct horse battery')
+      // Same password, different salt
+      expect(bob.passwordHash).not.toBe(alice.passwordHash)
+    })
+
+    it('should reject a taken username', async () => {
+      const result = await authenticator.register({
+        username: ' alice ',
+        email: 'other@example.com',
+        password: 'correct horse battery',
+      })
+
+      expectPasswordError(result, 'username-taken')
+    })
+
+    it('should reject passwords breaking the policy', async () => {
+      authenticator = createAuthenticator({
+        policy: { requireNumber: true },
+      })
+
+      const result = await authenticator.register({
+        username: 'bob',
+        email: 'bob@example.com',
+        password: 'bob-short',
+      })
+
+      expectPasswordError(result, 'weak-password')
+      if (!result.success) {
+        expect((result.error as KenmonPasswordError).violations).toEqual([
+          'missing-number',
+          'contains-username',
+        ])
+      }
+      expect(storage.credentials.size).toBe(1)
+    })
+
+    it('should reject passwords failing the custom check', async () => {
+      authenticator = createAuthenticator({
+        validatePassword: (password) => password !== 'password123',
+      })
+
+      const result = await authenticator.register({
+        username: 'bob',
+        email: 'bob@example.com',
+        password: 'password123',
+      })
+
+      expectPasswordError(result, 'weak-password')
+      if (!result.success) {
+        expect((result.error as KenmonPasswordError).violations).toEqual([
+          'rejected',
+        ])
+      }
+    })
+  })
+
+  describe('verifyPassword', () => {
+    it('should verify the correct password', async () => {
+      const result = await authenticator.verifyPassword({
+        username: 'ALICE',
+        password: 'correct horse battery',
+      })
+
+      expect(result).toEqual({
+        success: true,
+        data: { type: 'password', value: 'alice' },
+      })
+    })
+
+    it('should reject a wrong password', async () => {
+      const result = await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'wrong password',
+      })
+
+      expectPasswordError(result, 'invalid-credentials')
+    })
+
+    it('should reject an unknown username the same way', async () => {
+      const result = await authenticator.verifyPassword({
+        username: 'mallory',
+        password: 'correct horse battery',
+      })
+
+      expectPasswordError(result, 'invalid-credentials')
+    })
+
+    it('should reject oversized passwords before hashing them', async () => {
+      const result = await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'a'.repeat(1025),
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidPayloadError)
+      }
+    })
+
+    it('should rehash outdated hashes on success', async () => {
+      authenticator = createAuthenticator({ hashing: { cost: 11 } })
+      const [credential] = [...storage.credentials.values()]
+      const oldHash = credential.passwordHash
+
+      await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'wrong password',
+      })
+      expect(credential.passwordHash).toBe(oldHash)
+
+      await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'correct horse battery',
+      })
+      expect(credential.passwordHash).toMatch(/^\$scrypt\$ln=11,/)
+      expect(
+        await verifyPasswordHash(
+          'correct horse battery',
+          credential.passwordHash,
+        ),
+      ).toBe(true)
+    })
+
+    it('should keep pending reset links when rehashing', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const link = mailer.getLastLink()
+      const [credential] = [...storage.credentials.values()]
+      credential.updatedAt = new Date(Date.now() - 2000)
+      storage.resets.get(link.resetId)!.createdAt = new Date(Date.now() - 1000)
+      authenticator = createAuthenticator({ hashing: { cost: 11 } })
+
+      await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'correct horse battery',
+      })
+      const result = await authenticator.resetPassword({
+        ...link,
+        newPassword: 'new staple password',
+      })
+
+      expect(credential.passwordHash).toMatch(/^\$scrypt\$ln=11,/)
+      expect(result.success).toBe(true)
+    })
+  })
+
+  describe('changePassword', () => {
+    it('should change the password', async () => {
+      const result = await authenticator.changePassword({
+        username: 'alice',
+        currentPassword: 'correct horse battery',
+        newPassword: 'new staple password',
+      })
+
+      expect(result.success).toBe(true)
+      expectPasswordError(
+        await authenticator.verifyPassword({
+          username: 'alice',
+          password: 'correct horse battery',
+        }),
+        'invalid-credentials',
+      )
+      expect(
+        (
+          await authenticator.verifyPassword({
+            username: 'alice',
+            password: 'new staple password',
+          })
+        ).success,
+      ).toBe(true)
+    })
+
+    it('should require the current password', async () => {
+      const result = await authenticator.changePassword({
+        username: 'alice',
+        currentPassword: 'wrong password',
+        newPassword: 'new staple password',
+      })
+
+      expectPasswordError(result, 'invalid-credentials')
+    })
+
+    it('should reject oversized passwords', async () => {
+      const result = await authenticator.changePassword({
+        username: 'alice',
+        currentPassword: 'a'.repeat(1025),
+        newPassword: 'new staple password',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonInvalidPayloadError)
+      }
+    })
+  })
+
+  describe('password reset', () => {
+    it('should email a reset link and reset the password', async () => {
+      const requestResult = await authenticator.requestPasswordReset('alice')
+
+      expect(requestResult.success).toBe(true)
+      expect(mailer.sentEmails[0]).toMatchObject({
+        to: 'alice@example.com',
+        from: 'noreply@example.com',
+      })
+
+      // Only the token hash is stored
+      const { resetId, token } = mailer.getLastLink()
+      const reset = await storage.getPasswordResetById(resetId)
+      expect(reset?.tokenHash).toMatch(/^[0-9a-f]{64}$/)
+      expect(reset?.tokenHash).not.toBe(token)
+
+      const result = await authenticator.resetPassword({
+        resetId,
+        token,
+        newPassword: 'new staple password',
+      })
+
+      expect(result).toEqual({
+        success: true,
+        data: { type: 'password', value: 'alice' },
+      })
+      expect(
+        (
+          await authenticator.verifyPassword({
+            username: 'alice',
+            password: 'new staple password',
+          })
+        ).success,
+      ).toBe(true)
+    })
+
+    it('should not reveal unknown usernames', async () => {
+      const result = await authenticator.requestPasswordReset('mallory')
+
+      expect(result.success).toBe(true)
+      expect(mailer.sentEmails).toHaveLength(0)
+    })
+
+    it('should only be used once', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const link = mailer.getLastLink()
+
+      await authenticator.resetPassword({
+        ...link,
+        newPassword: 'new staple password',
+      })
+      const result = await authenticator.resetPassword({
+        ...link,
+        newPassword: 'another staple password',
+      })
+
+      expectPasswordError(result, 'reset-already-used')
+    })
+
+    it('should only be used once by concurrent requests', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const link = mailer.getLastLink()
+
+      const results = await Promise.all([
+        authenticator.resetPassword({
+          ...link,
+          newPassword: 'new staple password',
+        }),
+        authenticator.resetPassword({
+          ...link,
+          newPassword: 'another staple password',
+        }),
+      ])
+
+      expect(results.filter((result) => result.success)).toHaveLength(1)
+      expectPasswordError(
+        results.find((result) => !result.success)!,
+        'reset-already-used',
+      )
+    })
+
+    it('should reject a wrong token', async () => {
+      await authenticator.requestPasswordReset('alice')
+
+      const result = await authenticator.resetPassword({
+        resetId: mailer.getLastLink().resetId,
+        token: 'wrong-token',
+        newPassword: 'new staple password',
+      })
+
+      expectPasswordError(result, 'invalid-reset-token')
+    })
+
+    it('should reject an expired link', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const link = mailer.getLastLink()
+      storage.resets.get(link.resetId)!.expiresAt = new Date(Date.now() - 1000)
+
+      const result = await authenticator.resetPassword({
+        ...link,
+        newPassword: 'new staple password',
+      })
+
+      expectPasswordError(result, 'reset-expired')
+    })
+
+    it('should reject links requested before the last password change', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const link = mailer.getLastLink()
+      const [credential] = [...storage.credentials.values()]
+      credential.updatedAt = new Date(Date.now() + 1000)
+
+      const result = await authenticator.resetPassword({
+        ...link,
+        newPassword: 'new staple password',
+      })
+
+      expectPasswordError(result, 'reset-already-used')
+    })
+  })
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      authenticator = createAuthenticator({
+        rateLimit: {
+          verify: new KenmonRateLimiter({ limit: 2, window: 60 }),
+          reset: new KenmonRateLimiter({ limit: 1, window: 60 }),
+        },
+      })
+    })
+
+    it('should limit password attempts of a username', async () => {
+      await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'wrong-1',
+      })
+      await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'wrong-2',
+      })
+      const result = await authenticator.verifyPassword({
+        username: 'alice',
+        password: 'correct horse battery',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+    })
+
+    it('should limit reset emails to the same username', async () => {
+      await authenticator.requestPasswordReset('alice')
+      const result = await authenticator.requestPasswordReset('alice')
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(KenmonRateLimitedError)
+      }
+      expect(mailer.sentEmails).toHaveLength(1)
+    })
+  })
+})
+
+describe('password helpers', () => {
+  it('should flag hashes with other parameters for rehashing', async () => {
+    const hash = await hashPassword('correct horse battery', { cost: 10 })
+
+    expect(needsRehash(hash, { cost: 10 })).toBe(false)
+    expect(needsRehash(hash, { cost: 11 })).toBe(true)
+    expect(needsRehash('not-a-hash')).toBe(true)
+    expect(
+      await verifyPasswordHash('correct horse battery', 'not-a-hash'),
+    ).toBe(false)
+  })
+
+  it('should count lengths in code points', () => {
+    expect(checkPasswordPolicy('🔑🔑🔑🔑🔑🔑🔑🔑')).toEqual([])
+    expect(checkPasswordPolicy('a'.repeat(129))).toEqual(['too-long'])
+  })
+})
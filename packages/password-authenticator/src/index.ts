@@ -0,0 +1,588 @@
+import crypto from 'crypto'
+import { isAfter, addSeconds } from 'date-fns'
+import { z } from 'zod'
+import {
+  KenmonIdentifier,
+  KenmonReturnType,
+  KenmonMailer,
+  KenmonError,
+  KenmonInvalidPayloadError,
+  KenmonRateLimiter,
+} from 'kenmon'
+import {
+  KenmonPasswordPolicy,
+  KenmonPasswordPolicyViolation,
+  KenmonScryptOptions,
+  checkPasswordPolicy,
+  hashPassword,
+  needsRehash,
+  verifyPasswordHash,
+} from './password'
+
+export * from './password'
+
+// Password specific error with reason discriminator
+export type KenmonPasswordErrorReason =
+  | 'invalid-credentials'
+  | 'username-taken'
+  | 'weak-password'
+  | 'reset-not-found'
+  | 'reset-expired'
+  | 'invalid-reset-token'
+  | 'reset-already-used'
+
+export interface KenmonPasswordCredential {
+  id: string
+  username: string // normalized (trimmed, lowercase)
+  email: string // receives password reset emails
+  passwordHash: string // PHC string from hashPassword()
+  createdAt: Date
+  updatedAt: Date // last password change
+}
+
+export interface KenmonPasswordReset {
+  id: string
+  credentialId: string
+  tokenHash: string // SHA-256 hex of the token in the link
+  expiresAt: Date
+  used: boolean
+  createdAt: Date
+}
+
+export class KenmonPasswordError extends KenmonError {
+  readonly reason: KenmonPasswordErrorReason
+  readonly violations: KenmonPasswordPolicyViolation[] // set for `weak-password`
+
+  constructor(
+    reason: KenmonPasswordErrorReason,
+    violations: KenmonPasswordPolicyViolation[] = [],
+  ) {
+    const messages: Record<KenmonPasswordErrorReason, string> = {
+      'invalid-credentials': 'Invalid username or password',
+      'username-taken': 'Username is already taken',
+      'weak-password': 'Password does not meet the password policy',
+      'reset-not-found': 'Password reset not found',
+      'reset-expired': 'Password reset link has expired',
+      'invalid-reset-token': 'Invalid password reset token',
+      'reset-already-used': 'Password reset link has already been used',
+    }
+    super(messages[reason])
+    this.name = 'KenmonPasswordError'
+    this.reason = reason
+    this.violations = violations
+    Object.setPrototypeOf(this, KenmonPasswordError.prototype)
+  }
+}
+
+// Bounds the scrypt work for passwords which are hashed before the policy
+// check, whatever the policy's `maxLength`
+const maxPasswordInputLength = 1024
+
+// Zod schemas for payload validation
+const passwordSchema = z
+  .string()
+  .max(maxPasswordInputLength, 'Password is too long')
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Username is required')
+
+const passwordRegisterDataSchema = z.object({
+  username: usernameSchema,
+  email: z.email('Invalid email address'),
+  password: passwordSchema,
+})
+
+const passwordVerifyDataSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema.min(1, 'Password is required'),
+})
+
+const passwordChangeDataSchema = z.object({
+  username: usernameSchema,
+  currentPassword: passwordSchema.min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+})
+
+const passwordResetDataSchema = z.object({
+  resetId: z.string().min(1, 'Reset ID is required'),
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema,
+})
+
+// Password storage interface
+export interface KenmonPasswordStorage {
+  createCredential(data: {
+    username: string
+    email: string
+    passwordHash: string
+  }): Promise<KenmonPasswordCredential>
+  getCredentialById(id: string): Promise<KenmonPasswordCredential | null>
+  getCredentialByUsername(
+    username: string,
+  ): Promise<KenmonPasswordCredential | null>
+  // Also sets `updatedAt`
+  updatePasswordHash(id: string, passwordHash: string): Promise<void>
+  // Same password with new hashing options, keeps `updatedAt`
+  rehashPassword(id: string, passwordHash: string): Promise<void>
+  createPasswordReset(data: {
+    credentialId: string
+    tokenHash: string
+    expiresAt: Date
+  }): Promise<KenmonPasswordReset>
+  getPasswordResetById(id: string): Promise<KenmonPasswordReset | null>
+  // Mark it atomically if it is unused, true if it was
+  markPasswordResetAsUsed(id: string): Promise<boolean>
+}
+
+// Password Authenticator configuration
+export interface KenmonPasswordAuthenticatorConfig {
+  passwordStorage: KenmonPasswordStorage
+  mailer: KenmonMailer
+  resetUrl: string // page calling resetPassword(), `id` and `token` are appended as query params
+  resetTtl?: number // seconds, default 3600 (1 hour)
+  emailFrom: string
+  emailSubject?: (url: string, resetTtl: number) => string
+  emailTextContent?: (url: string, resetTtl: number) => string
+  emailHtmlContent?: (url: string, resetTtl: number) => string
+  policy?: KenmonPasswordPolicy
+  // Extra check, e.g. against a breached password list
+  validatePassword?: (password: string) => Promise<boolean> | boolean
+  hashing?: KenmonScryptOptions
+  rateLimit?: {
+    verify?: KenmonRateLimiter // keyed by username and IP address
+    reset?: KenmonRateLimiter // keyed by username and IP address
+  }
+}
+
+export class KenmonPasswordAuthenticator {
+  readonly type = 'password'
+  private passwordStorage: KenmonPasswordStorage
+  private mailer: KenmonMailer
+  private resetUrl: string
+  private resetTtl: number
+  private emailFrom: string
+  private emailSubject: (url: string, resetTtl: number) => string
+  private emailTextContent: (url: string, resetTtl: number) => string
+  private emailHtmlContent: (url: string, resetTtl: number) => string
+  private policy: KenmonPasswordPolicy
+  private validatePassword?: (password: string) => Promise<boolean> | boolean
+  private hashing: KenmonScryptOptions
+  private rateLimit: {
+    verify?: KenmonRateLimiter
+    reset?: KenmonRateLimiter
+  }
+  // Compared against for unknown usernames, so they take as long as wrong passwords
+  private dummyHash?: Promise<string>
+
+  constructor(config: KenmonPasswordAuthenticatorConfig) {
+    this.passwordStorage = config.passwordStorage
+    this.mailer = config.mailer
+    this.resetUrl = config.resetUrl
+    this.resetTtl = config.resetTtl ?? 3600 // 1 hour default
+    this.emailFrom = config.emailFrom
+    this.policy = config.policy ?? {}
+    this.validatePassword = config.validatePassword
+    this.hashing = config.hashing ?? {}
+    this.rateLimit = config.rateLimit ?? {}
+
+    // Set default email subject
+    this.emailSubject =
+      config.emailSubject ??
+      ((url: string, resetTtl: number) => {
+        return 'Reset your password'
+      })
+
+    // Set default text content
+    this.emailTextContent =
+      config.emailTextContent ??
+      ((url: string, resetTtl: number) => {
+        return `Open this link to reset your password: ${url}
+
+This link will expire in ${Math.floor(resetTtl / 60)} minutes and can only be used once.
+
+If you didn't request a password reset, you can ignore this email.`
+      })
+
+    // Set default HTML content
+    this.emailHtmlContent =
+      config.emailHtmlContent ??
+      ((url: string, resetTtl: number) => {
+        return `
+<div>
+  <p>Open this link to reset your password:</p>
+  <p><a href="${url}" style="font-size: 18px; font-weight: bold;">Reset password</a></p>
+  <p style="margin-top: 16px;">This link will expire in ${Math.floor(resetTtl / 60)} minutes and can only be used once.</p>
+  <p style="color: #666; font-size: 14px;">If you didn't request a password reset, you can ignore this email.</p>
+</div>
+      `.trim()
+      })
+  }
+
+  /**
+   * Store a password for a new username.
+   * Pass the returned identifier to `auth.signUp()` or `auth.linkIdentifier()`.
+   */
+  async register(payload: {
+    username: string
+    email: string
+    password: string
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    const result = passwordRegisterDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { username, email, password } = result.data
+
+    try {
+      const policyResult = await this.checkPolicy(password, username)
+      if (!policyResult.success) {
+        return policyResult
+      }
+
+      const existing =
+        await this.passwordStorage.getCredentialByUsername(username)
+      if (existing) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('username-taken'),
+        }
+      }
+
+      await this.passwordStorage.createCredential({
+        username,
+        email,
+        passwordHash: await hashPassword(password, this.hashing),
+      })
+
+      return { success: true, data: this.toIdentifier(username) }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Check a username and password. Pass the returned identifier to
+   * `auth.signIn()`, and report `invalid-credentials` failures with
+   * `auth.reportFailedAuthentication()` to enable account lockout.
+   * Hashes made with outdated `hashing` options are replaced on success.
+   */
+  async verifyPassword(
+    payload: {
+      username: string
+      password: string
+    },
+    options?: { ipAddress?: string },
+  ): Promise<KenmonReturnType<KenmonIdentifier>> {
+    // Validate payload with Zod
+    const result = passwordVerifyDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { username, password } = result.data
+
+    const rateLimitKeys = [`verify-password:username:${username}`]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`verify-password:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.verify?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
+    try {
+      const credentialResult = await this.checkCredential(username, password)
+      if (!credentialResult.success) {
+        return credentialResult
+      }
+      const credential = credentialResult.data
+
+      // Not a password change, so pending reset links keep working
+      if (needsRehash(credential.passwordHash, this.hashing)) {
+        await this.passwordStorage.rehashPassword(
+          credential.id,
+          await hashPassword(password, this.hashing),
+        )
+      }
+
+      return { success: true, data: this.toIdentifier(username) }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Change the password of a signed-in user, who has to enter the current one.
+   * Pending password resets of the user stop working.
+   */
+  async changePassword(payload: {
+    username: string
+    currentPassword: string
+    newPassword: string
+  }): Promise<KenmonReturnType<void>> {
+    const result = passwordChangeDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { username, currentPassword, newPassword } = result.data
+
+    try {
+      const credentialResult = await this.checkCredential(
+        username,
+        currentPassword,
+      )
+      if (!credentialResult.success) {
+        return credentialResult
+      }
+
+      const policyResult = await this.checkPolicy(newPassword, username)
+      if (!policyResult.success) {
+        return policyResult
+      }
+
+      await this.passwordStorage.updatePasswordHash(
+        credentialResult.data.id,
+        await hashPassword(newPassword, this.hashing),
+      )
+
+      return { success: true, data: undefined }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Email a single-use password reset link to the address stored for the
+   * username. Succeeds for unknown usernames too, so the response doesn't
+   * reveal which usernames exist.
+   */
+  async requestPasswordReset(
+    username: string,
+    options?: { ipAddress?: string },
+  ): Promise<KenmonReturnType<void>> {
+    const result = usernameSchema.safeParse(username)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const rateLimitKeys = [`reset-password:username:${result.data}`]
+    if (options?.ipAddress) {
+      rateLimitKeys.push(`reset-password:ip:${options.ipAddress}`)
+    }
+    const rateLimitResult = await this.rateLimit.reset?.consume(rateLimitKeys)
+    if (rateLimitResult && !rateLimitResult.success) {
+      return { success: false, error: rateLimitResult.error }
+    }
+
+    try {
+      const credential = await this.passwordStorage.getCredentialByUsername(
+        result.data,
+      )
+      if (!credential) {
+        return { success: true, data: undefined }
+      }
+
+      const token = crypto.randomBytes(32).toString('base64url')
+      // Only the hash is stored, so a leaked table can't be used to reset passwords
+      const reset = await this.passwordStorage.createPasswordReset({
+        credentialId: credential.id,
+        tokenHash: this.hashToken(token),
+        expiresAt: addSeconds(new Date(), this.resetTtl),
+      })
+
+      const url = new URL(this.resetUrl)
+      url.searchParams.set('id', reset.id)
+      url.searchParams.set('token', token)
+
+      // Send email
+      await this.mailer.sendEmail({
+        from: this.emailFrom,
+        to: credential.email,
+        subject: this.emailSubject(url.href, this.resetTtl),
+        textContent: this.emailTextContent(url.href, this.resetTtl),
+        htmlContent: this.emailHtmlContent(url.href, this.resetTtl),
+      })
+
+      return { success: true, data: undefined }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Set a new password with the `id` and `token` from a reset link.
+   * Invalidate all sessions of the user afterwards with
+   * `auth.storage.invalidateAllUserSessions(userId)`, as the old password
+   * may have been compromised.
+   * @returns Identifier of the account whose password was reset
+   */
+  async resetPassword(payload: {
+    resetId: string
+    token: string
+    newPassword: string
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    // Validate payload with Zod
+    const result = passwordResetDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { resetId, token, newPassword } = result.data
+
+    try {
+      const reset = await this.passwordStorage.getPasswordResetById(resetId)
+      if (!reset) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('reset-not-found'),
+        }
+      }
+
+      if (!this.isTokenValid(token, reset.tokenHash)) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('invalid-reset-token'),
+        }
+      }
+
+      const credential = await this.passwordStorage.getCredentialById(
+        reset.credentialId,
+      )
+      // Links requested before the latest password change are used up too
+      if (
+        reset.used ||
+        !credential ||
+        isAfter(credential.updatedAt, reset.createdAt)
+      ) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('reset-already-used'),
+        }
+      }
+
+      if (isAfter(new Date(), reset.expiresAt)) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('reset-expired'),
+        }
+      }
+
+      const policyResult = await this.checkPolicy(
+        newPassword,
+        credential.username,
+      )
+      if (!policyResult.success) {
+        return policyResult
+      }
+
+      // Claim the link first, so concurrent requests with it can't all succeed
+      if (!(await this.passwordStorage.markPasswordResetAsUsed(reset.id))) {
+        return {
+          success: false,
+          error: new KenmonPasswordError('reset-already-used'),
+        }
+      }
+
+      await this.passwordStorage.updatePasswordHash(
+        credential.id,
+        await hashPassword(newPassword, this.hashing),
+      )
+
+      return { success: true, data: this.toIdentifier(credential.username) }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  private async checkCredential(
+    username: string,
+    password: string,
+  ): Promise<KenmonReturnType<KenmonPasswordCredential>> {
+    const credential =
+      await this.passwordStorage.getCredentialByUsername(username)
+    if (!credential) {
+      this.dummyHash ??= hashPassword(
+        crypto.randomBytes(16).toString('hex'),
+        this.hashing,
+      )
+      await verifyPasswordHash(password, await this.dummyHash)
+      return {
+        success: false,
+        error: new KenmonPasswordError('invalid-credentials'),
+      }
+    }
+
+    if (!(await verifyPasswordHash(password, credential.passwordHash))) {
+      return {
+        success: false,
+        error: new KenmonPasswordError('invalid-credentials'),
+      }
+    }
+
+    return { success: true, data: credential }
+  }
+
+  private async checkPolicy(
+    password: string,
+    username: string,
+  ): Promise<KenmonReturnType<void>> {
+    const violations = checkPasswordPolicy(password, this.policy, username)
+    // Skip the custom check for oversized input
+    if (
+      !violations.includes('too-long') &&
+      this.validatePassword &&
+      !(await this.validatePassword(password))
+    ) {
+      violations.push('rejected')
+    }
+
+    if (violations.length > 0) {
+      return {
+        success: false,
+        error: new KenmonPasswordError('weak-password', violations),
+      }
+    }
+
+    return { success: true, data: undefined }
+  }
+
+  private toIdentifier(username: string): KenmonIdentifier {
+    return {
+      type: 'password',
+      value: username,
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  private isTokenValid(token: string, tokenHash: string): boolean {
+    const expected = Buffer.from(tokenHash, 'hex')
+    const actual = Buffer.from(this.hashToken(token), 'hex')
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    )
+  }
+}
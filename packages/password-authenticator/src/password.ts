@@ -0,0 +1,177 @@
+import crypto from 'crypto'
+
+export interface KenmonScryptOptions {
+  cost?: number // log2 of the scrypt N parameter, default 17 (N = 131072)
+  blockSize?: number // scrypt r, default 8
+  parallelization?: number // scrypt p, default 1
+}
+
+export interface KenmonPasswordPolicy {
+  minLength?: number // default 8
+  maxLength?: number // default 128, also bounds the hashing work per request
+  requireUppercase?: boolean
+  requireLowercase?: boolean
+  requireNumber?: boolean
+  requireSymbol?: boolean
+  disallowUsername?: boolean // default true
+}
+
+export type KenmonPasswordPolicyViolation =
+  | 'too-short'
+  | 'too-long'
+  | 'missing-uppercase'
+  | 'missing-lowercase'
+  | 'missing-number'
+  | 'missing-symbol'
+  | 'contains-username'
+  | 'rejected' // by the custom `validatePassword` check
+
+const SALT_LENGTH = 16
+const KEY_LENGTH = 32
+const HASH_PATTERN =
+  /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/
+
+function resolveScryptOptions(
+  options?: KenmonScryptOptions,
+): Required<KenmonScryptOptions> {
+  return {
+    cost: options?.cost ?? 17,
+    blockSize: options?.blockSize ?? 8,
+    parallelization: options?.parallelization ?? 1,
+  }
+}
+
+function scrypt(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  { cost, blockSize, parallelization }: Required<KenmonScryptOptions>,
+): Promise<Buffer> {
+  const N = 2 ** cost
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password.normalize('NFKC'),
+      salt,
+      keyLength,
+      {
+        N,
+        r: blockSize,
+        p: parallelization,
+        // Node caps scrypt memory at 32 MiB unless told otherwise
+        maxmem: 256 * N * blockSize * parallelization,
+      },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    )
+  })
+}
+
+function encodeBase64(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/=+$/, '')
+}
+
+/**
+ * Hashes a password with scrypt and a random per-password salt.
+ * @returns PHC string, e.g. `$scrypt$ln=17,r=8,p=1$<salt>$<hash>`
+ */
+export async function hashPassword(
+  password: string,
+  options?: KenmonScryptOptions,
+): Promise<string> {
+  const resolved = resolveScryptOptions(options)
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const key = await scrypt(password, salt, KEY_LENGTH, resolved)
+
+  return `$scrypt$ln=${resolved.cost},r=${resolved.blockSize},p=${resolved.parallelization}$${encodeBase64(salt)}$${encodeBase64(key)}`
+}
+
+/**
+ * Checks a password against a hash from `hashPassword()`, using the
+ * parameters stored in the hash.
+ */
+export async function verifyPasswordHash(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  const match = passwordHash.match(HASH_PATTERN)
+  if (!match) {
+    return false
+  }
+
+  const [, cost, blockSize, parallelization, salt, hash] = match
+  const expected = Buffer.from(hash, 'base64')
+  const key = await scrypt(
+    password,
+    Buffer.from(salt, 'base64'),
+    expected.length,
+    {
+      cost: Number(cost),
+      blockSize: Number(blockSize),
+      parallelization: Number(parallelization),
+    },
+  )
+
+  return crypto.timingSafeEqual(key, expected)
+}
+
+/**
+ * Whether a hash was created with other parameters than `options`, e.g.
+ * before the cost was raised. Such hashes should be replaced on sign in.
+ */
+export function needsRehash(
+  passwordHash: string,
+  options?: KenmonScryptOptions,
+): boolean {
+  const match = passwordHash.match(HASH_PATTERN)
+  if (!match) {
+    return true
+  }
+
+  const { cost, blockSize, parallelization } = resolveScryptOptions(options)
+  return (
+    Number(match[1]) !== cost ||
+    Number(match[2]) !== blockSize ||
+    Number(match[3]) !== parallelization ||
+    Buffer.from(match[5], 'base64').length !== KEY_LENGTH
+  )
+}
+
+/**
+ * Lists the policy rules a password breaks, e.g. for showing requirements
+ * while the user types. Lengths are counted in code points.
+ */
+export function checkPasswordPolicy(
+  password: string,
+  policy?: KenmonPasswordPolicy,
+  username?: string,
+): KenmonPasswordPolicyViolation[] {
+  const violations: KenmonPasswordPolicyViolation[] = []
+  const length = [...password].length
+
+  if (length < (policy?.minLength ?? 8)) {
+    violations.push('too-short')
+  }
+  if (length > (policy?.maxLength ?? 128)) {
+    violations.push('too-long')
+  }
+  if (policy?.requireUppercase && !/\p{Lu}/u.test(password)) {
+    violations.push('missing-uppercase')
+  }
+  if (policy?.requireLowercase && !/\p{Ll}/u.test(password)) {
+    violations.push('missing-lowercase')
+  }
+  if (policy?.requireNumber && !/\p{N}/u.test(password)) {
+    violations.push('missing-number')
+  }
+  if (policy?.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+    violations.push('missing-symbol')
+  }
+  if (
+    (policy?.disallowUsername ?? true) &&
+    username &&
+    password.toLowerCase().includes(username.toLowerCase())
+  ) {
+    violations.push('contains-username')
+  }
+
+  return violations
+}
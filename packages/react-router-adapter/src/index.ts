@@ -111,5 +111,10 @@ export class KenmonReactRouterAdapter implements KenmonAdapter {
 
     responseHeaders.append('Set-Cookie', `${name}=; Max-Age=0; Path=/`)
   }
-}
 
+  async getHeader(name: string): Promise<string | undefined> {
+    const { request } = getKenmonReactRouterContext()
+
+    return request.headers.get(name) ?? undefined
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { KenmonEmailOTPStorage } from '@kenmon/email-otp-authenticator'
+import type { KenmonStorageTestOptions } from './storage'
+
+const unknownId = '00000000-0000-4000-8000-000000000000'
+
+/**
+ * Run the KenmonEmailOTPStorage contract against a storage implementation.
+ * Call it at the top level of a vitest test file.
+ */
+export function testKenmonEmailOTPStorage<S extends KenmonEmailOTPStorage>(
+  options: KenmonStorageTestOptions<S>,
+): void {
+  describe('KenmonEmailOTPStorage conformance', () => {
+    let storage: S
+
+    beforeEach(async () => {
+      storage = await options.createStorage()
+    })
+
+    afterEach(async () => {
+      await options.cleanup?.(storage)
+    })
+
+    it('createOTP() returns the stored OTP as unused', async () => {
+      const expiresAt = new Date('2099-01-01T00:00:00.123Z')
+
+      const otp = await storage.createOTP(
+        'test@example.com',
+        '123456',
+        expiresAt,
+        'signature',
+      )
+
+      expect(otp).toMatchObject({
+        email: 'test@example.com',
+        code: '123456',
+        signature: 'signature',
+        expiresAt,
+        used: false,
+      })
+      expect(typeof otp.id).toBe('string')
+    })
+
+    it('getOTPById() returns the created OTP', async () => {
+      const otp = await storage.createOTP(
+        'test@example.com',
+        '123456',
+        new Date('2099-01-01T00:00:00Z'),
+        'signature',
+      )
+
+      expect(await storage.getOTPById(otp.id)).toEqual(otp)
+    })
+
+    it('getOTPById() returns null for unknown OTPs', async () => {
+      expect(await storage.getOTPById(unknownId)).toBeNull()
+    })
+
+    it('markOTPAsUsed() only marks the given OTP', async () => {
+      const expiresAt = new Date('2099-01-01T00:00:00Z')
+      const otp = await storage.createOTP(
+        'test@example.com',
+        '123456',
+        expiresAt,
+        'signature',
+      )
+      const otherOtp = await storage.createOTP(
+        'test@example.com',
+        '654321',
+        expiresAt,
+        'signature',
+      )
+
+      await storage.markOTPAsUsed(otp.id)
+
+      expect((await storage.getOTPById(otp.id))?.used).toBe(true)
+      expect((await storage.getOTPById(otherOtp.id))?.used).toBe(false)
+    })
+  })
+}
@@ -0,0 +1,6 @@
+import { KenmonMemoryStorage } from 'kenmon'
+import { testKenmonStorage, testKenmonEmailOTPStorage } from './index'
+
+testKenmonStorage({ createStorage: () => new KenmonMemoryStorage() })
+
+testKenmonEmailOTPStorage({ createStorage: () => new KenmonMemoryStorage() })
@@ -0,0 +1,2 @@
+export { testKenmonStorage, type KenmonStorageTestOptions } from './storage'
+export { testKenmonEmailOTPStorage } from './emailOTPStorage'
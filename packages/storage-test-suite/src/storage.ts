@@ -0,0 +1,470 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { KenmonStorage, KenmonIdentifier } from 'kenmon'
+
+export interface KenmonStorageTestOptions<S> {
+  // Return a storage backed by an empty database, called before each test
+  createStorage: () => S | Promise<S>
+  // Release resources (e.g. drop tables, close connections) after each test
+  cleanup?: (storage: S) => void | Promise<void>
+}
+
+// A well-formed ID nobody owns, so UUID columns do not reject it
+const unknownId = '00000000-0000-4000-8000-000000000000'
+
+const testIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'test@example.com',
+}
+
+const otherIdentifier: KenmonIdentifier = {
+  type: 'email-otp',
+  value: 'other@example.com',
+}
+
+const googleIdentifier: KenmonIdentifier = {
+  type: 'google-oauth',
+  value: '1234567890',
+  data: { email: 'test@example.com', name: 'Test' },
+}
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000)
+
+/**
+ * Run the KenmonStorage contract against a storage implementation.
+ * Call it at the top level of a vitest test file.
+ */
+export function testKenmonStorage<S extends KenmonStorage<any>>(
+  options: KenmonStorageTestOptions<S>,
+): void {
+  describe('KenmonStorage conformance', () => {
+    let storage: S
+
+    const getUserId = (user: any): string => user.id
+
+    const createTestSession = (
+      userId: string,
+      data?: { expiresAt?: Date; ipAddress?: string; userAgent?: string },
+    ) =>
+      storage.createSession({
+        userId,
+        tokenHash: 'session-token-hash',
+        expiresAt: data?.expiresAt ?? inOneHour(),
+        mfaEnabled: false,
+        mfaVerified: false,
+        ipAddress: data?.ipAddress,
+        userAgent: data?.userAgent,
+      })
+
+    beforeEach(async () => {
+      storage = await options.createStorage()
+    })
+
+    afterEach(async () => {
+      await options.cleanup?.(storage)
+    })
+
+    describe('users', () => {
+      it('createUser() returns a user with an id', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        expect(typeof getUserId(user)).toBe('string')
+      })
+
+      it('getUserById() returns the created user', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        const found = await storage.getUserById(getUserId(user))
+
+        expect(getUserId(found)).toBe(getUserId(user))
+      })
+
+      it('getUserById() returns null for unknown users', async () => {
+        expect(await storage.getUserById(unknownId)).toBeNull()
+      })
+
+      it('getUserAuthInfoByIdentifier() resolves the owner with MFA disabled', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        expect(
+          await storage.getUserAuthInfoByIdentifier(testIdentifier),
+        ).toEqual({ userId: getUserId(user), mfaEnabled: false })
+      })
+
+      it('getUserAuthInfoByIdentifier() returns null for unknown identifiers', async () => {
+        await storage.createUser(testIdentifier, {})
+
+        expect(
+          await storage.getUserAuthInfoByIdentifier(otherIdentifier),
+        ).toBeNull()
+        // Same value, different type
+        expect(
+          await storage.getUserAuthInfoByIdentifier({
+            type: 'email',
+            value: testIdentifier.value,
+          }),
+        ).toBeNull()
+      })
+
+      it('createUser() rejects identifiers owned by another user', async () => {
+        await storage.createUser(testIdentifier, {})
+
+        await expect(storage.createUser(testIdentifier, {})).rejects.toThrow()
+      })
+
+      it('enableMfa() and disableMfa() toggle mfaEnabled', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        await storage.enableMfa(getUserId(user))
+        expect(
+          (await storage.getUserAuthInfoByIdentifier(testIdentifier))
+            ?.mfaEnabled,
+        ).toBe(true)
+
+        await storage.disableMfa(getUserId(user))
+        expect(
+          (await storage.getUserAuthInfoByIdentifier(testIdentifier))
+            ?.mfaEnabled,
+        ).toBe(false)
+      })
+    })
+
+    describe('identifiers', () => {
+      it('getUserIdentifiers() returns identifiers in creation order with data', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        await storage.createUserIdentifier(getUserId(user), googleIdentifier)
+
+        expect(await storage.getUserIdentifiers(getUserId(user))).toEqual([
+          testIdentifier,
+          googleIdentifier,
+        ])
+      })
+
+      it('getUserIdentifiers() returns an empty list for unknown users', async () => {
+        expect(await storage.getUserIdentifiers(unknownId)).toEqual([])
+      })
+
+      it('createUserIdentifier() makes the user resolvable by the identifier', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        await storage.createUserIdentifier(getUserId(user), googleIdentifier)
+
+        expect(
+          (await storage.getUserAuthInfoByIdentifier(googleIdentifier))?.userId,
+        ).toBe(getUserId(user))
+      })
+
+      it('createUserIdentifier() rejects identifiers owned by another user', async () => {
+        await storage.createUser(testIdentifier, {})
+        const other = await storage.createUser(otherIdentifier, {})
+
+        await expect(
+          storage.createUserIdentifier(getUserId(other), testIdentifier),
+        ).rejects.toThrow()
+      })
+
+      it('deleteUserIdentifier() removes the identifier of the user', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        await storage.createUserIdentifier(getUserId(user), googleIdentifier)
+
+        await storage.deleteUserIdentifier(getUserId(user), testIdentifier)
+
+        expect(await storage.getUserIdentifiers(getUserId(user))).toEqual([
+          googleIdentifier,
+        ])
+        expect(
+          await storage.getUserAuthInfoByIdentifier(testIdentifier),
+        ).toBeNull()
+      })
+
+      it('deleteUserIdentifier() ignores identifiers of other users', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        await storage.createUser(otherIdentifier, {})
+
+        await storage.deleteUserIdentifier(getUserId(user), otherIdentifier)
+
+        expect(
+          await storage.getUserAuthInfoByIdentifier(otherIdentifier),
+        ).not.toBeNull()
+      })
+    })
+
+    describe('sessions', () => {
+      it('createSession() returns the stored session with defaults', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const expiresAt = new Date('2099-01-01T00:00:00.123Z')
+
+        const session = await createTestSession(getUserId(user), {
+          expiresAt,
+        })
+
+        expect(session).toMatchObject({
+          userId: getUserId(user),
+          tokenHash: 'session-token-hash',
+          expiresAt,
+          invalidated: false,
+          mfaEnabled: false,
+          mfaVerified: false,
+        })
+        expect(typeof session.id).toBe('string')
+        expect(session.createdAt).toBeInstanceOf(Date)
+        expect(session.refreshedAt).toBeInstanceOf(Date)
+        expect(session.usedAt).toBeInstanceOf(Date)
+        expect(session.authenticatedAt).toBeInstanceOf(Date)
+        // Missing values are undefined, not null
+        expect(session.invalidatedAt).toBeUndefined()
+        expect(session.ipAddress).toBeUndefined()
+        expect(session.userAgent).toBeUndefined()
+        expect(session.impersonatorId).toBeUndefined()
+      })
+
+      it('getSessionById() returns the created session', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const session = await createTestSession(getUserId(user), {
+          ipAddress: '127.0.0.1',
+          userAgent: 'test-agent',
+        })
+
+        expect(await storage.getSessionById(session.id)).toEqual(session)
+      })
+
+      it('createSession() stores the impersonatorId', async () => {
+        const admin = await storage.createUser(testIdentifier, {})
+        const user = await storage.createUser(otherIdentifier, {})
+
+        const session = await storage.createSession({
+          userId: getUserId(user),
+          tokenHash: 'session-token-hash',
+          expiresAt: inOneHour(),
+          mfaEnabled: false,
+          mfaVerified: false,
+          impersonatorId: getUserId(admin),
+        })
+
+        expect(session.impersonatorId).toBe(getUserId(admin))
+        expect(await storage.getSessionById(session.id)).toEqual(session)
+      })
+
+      it('getSessionById() returns null for unknown sessions', async () => {
+        expect(await storage.getSessionById(unknownId)).toBeNull()
+      })
+
+      it('updateSession() only updates the given fields', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const session = await createTestSession(getUserId(user))
+        const usedAt = new Date(session.usedAt.getTime() + 1000)
+
+        await storage.updateSession(session.id, { usedAt, mfaVerified: true })
+
+        expect(await storage.getSessionById(session.id)).toEqual({
+          ...session,
+          usedAt,
+          mfaVerified: true,
+        })
+      })
+
+      it('updateSession() updates authenticatedAt', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const session = await createTestSession(getUserId(user))
+        const authenticatedAt = new Date(
+          session.authenticatedAt.getTime() + 1000,
+        )
+
+        await storage.updateSession(session.id, { authenticatedAt })
+
+        expect(await storage.getSessionById(session.id)).toEqual({
+          ...session,
+          authenticatedAt,
+        })
+      })
+
+      it('updateSession() updates ipAddress and userAgent', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const session = await createTestSession(getUserId(user), {
+          ipAddress: '127.0.0.1',
+          userAgent: 'test-agent',
+        })
+
+        await storage.updateSession(session.id, {
+          ipAddress: '192.0.2.1',
+          userAgent: 'other-agent',
+        })
+
+        expect(await storage.getSessionById(session.id)).toEqual({
+          ...session,
+          ipAddress: '192.0.2.1',
+          userAgent: 'other-agent',
+        })
+      })
+
+      it('invalidateSession() sets invalidated and invalidatedAt', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const session = await createTestSession(getUserId(user))
+        const otherSession = await createTestSession(getUserId(user))
+
+        await storage.invalidateSession(session.id)
+
+        const invalidated = await storage.getSessionById(session.id)
+        expect(invalidated?.invalidated).toBe(true)
+        expect(invalidated?.invalidatedAt).toBeInstanceOf(Date)
+        expect(
+          (await storage.getSessionById(otherSession.id))?.invalidated,
+        ).toBe(false)
+      })
+
+      it('invalidateAllUserSessions() only invalidates sessions of the user', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const other = await storage.createUser(otherIdentifier, {})
+        const sessions = [
+          await createTestSession(getUserId(user)),
+          await createTestSession(getUserId(user)),
+        ]
+        const otherSession = await createTestSession(getUserId(other))
+
+        await storage.invalidateAllUserSessions(getUserId(user))
+
+        for (const session of sessions) {
+          const invalidated = await storage.getSessionById(session.id)
+          expect(invalidated?.invalidated).toBe(true)
+          expect(invalidated?.invalidatedAt).toBeInstanceOf(Date)
+        }
+        expect(
+          (await storage.getSessionById(otherSession.id))?.invalidated,
+        ).toBe(false)
+      })
+
+      it('getUserSessions() returns sessions which are not invalidated, expired ones included', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const other = await storage.createUser(otherIdentifier, {})
+        const active = await createTestSession(getUserId(user))
+        const expired = await createTestSession(getUserId(user), {
+          expiresAt: new Date(Date.now() - 1000),
+        })
+        const invalidated = await createTestSession(getUserId(user))
+        await storage.invalidateSession(invalidated.id)
+        await createTestSession(getUserId(other))
+
+        const sessions = await storage.getUserSessions(getUserId(user))
+
+        expect(sessions.map((session) => session.id).sort()).toEqual(
+          [active.id, expired.id].sort(),
+        )
+      })
+
+      it('getUserSessions() returns invalidated sessions with includeInvalidated', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const other = await storage.createUser(otherIdentifier, {})
+        const active = await createTestSession(getUserId(user))
+        const invalidated = await createTestSession(getUserId(user))
+        await storage.invalidateSession(invalidated.id)
+        await createTestSession(getUserId(other))
+
+        const sessions = await storage.getUserSessions(getUserId(user), {
+          includeInvalidated: true,
+        })
+
+        expect(sessions.map((session) => session.id).sort()).toEqual(
+          [active.id, invalidated.id].sort(),
+        )
+      })
+    })
+
+    describe('lockout', () => {
+      it('getUserLockout() returns no failed attempts by default', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        const lockout = await storage.getUserLockout(getUserId(user))
+
+        expect(lockout.failedAttempts).toBe(0)
+        expect(lockout.lockedUntil).toBeUndefined()
+      })
+
+      it('incrementFailedAttempts() returns the new count', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        expect(await storage.incrementFailedAttempts(getUserId(user))).toBe(1)
+        expect(await storage.incrementFailedAttempts(getUserId(user))).toBe(2)
+        expect(
+          (await storage.getUserLockout(getUserId(user))).failedAttempts,
+        ).toBe(2)
+      })
+
+      it('lockUser() sets lockedUntil and keeps the count', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const lockedUntil = inOneHour()
+        await storage.incrementFailedAttempts(getUserId(user))
+
+        await storage.lockUser(getUserId(user), lockedUntil)
+
+        const lockout = await storage.getUserLockout(getUserId(user))
+        expect(lockout.failedAttempts).toBe(1)
+        expect(lockout.lockedUntil).toEqual(lockedUntil)
+      })
+
+      it('resetFailedAttempts() resets the count and unlocks', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        await storage.incrementFailedAttempts(getUserId(user))
+        await storage.lockUser(getUserId(user), inOneHour())
+
+        await storage.resetFailedAttempts(getUserId(user))
+
+        const lockout = await storage.getUserLockout(getUserId(user))
+        expect(lockout.failedAttempts).toBe(0)
+        expect(lockout.lockedUntil).toBeUndefined()
+      })
+    })
+
+    describe('recovery codes', () => {
+      it('countRecoveryCodes() returns 0 by default', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+
+        expect(await storage.countRecoveryCodes(getUserId(user))).toBe(0)
+      })
+
+      it('consumeRecoveryCode() deletes the code once', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        await storage.replaceRecoveryCodes(getUserId(user), [
+          'code-hash-1',
+          'code-hash-2',
+        ])
+
+        expect(
+          await storage.consumeRecoveryCode(getUserId(user), 'code-hash-1'),
+        ).toBe(true)
+        expect(
+          await storage.consumeRecoveryCode(getUserId(user), 'code-hash-1'),
+        ).toBe(false)
+        expect(await storage.countRecoveryCodes(getUserId(user))).toBe(1)
+      })
+
+      it('consumeRecoveryCode() ignores codes of other users', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        const other = await storage.createUser(otherIdentifier, {})
+        await storage.replaceRecoveryCodes(getUserId(other), ['code-hash-1'])
+
+        expect(
+          await storage.consumeRecoveryCode(getUserId(user), 'code-hash-1'),
+        ).toBe(false)
+        expect(await storage.countRecoveryCodes(getUserId(other))).toBe(1)
+      })
+
+      it('replaceRecoveryCodes() deletes the previous codes', async () => {
+        const user = await storage.createUser(testIdentifier, {})
+        await storage.replaceRecoveryCodes(getUserId(user), [
+          'code-hash-1',
+          'code-hash-2',
+        ])
+
+        await storage.replaceRecoveryCodes(getUserId(user), ['code-hash-3'])
+
+        expect(
+          await storage.consumeRecoveryCode(getUserId(user), 'code-hash-1'),
+        ).toBe(false)
+        expect(await storage.countRecoveryCodes(getUserId(user))).toBe(1)
+
+        await storage.replaceRecoveryCodes(getUserId(user), [])
+        expect(await storage.countRecoveryCodes(getUserId(user))).toBe(0)
+      })
+    })
+  })
+}
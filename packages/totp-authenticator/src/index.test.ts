@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  KenmonTOTPAuthenticator,
+  KenmonTOTPCredential,
+  KenmonTOTPError,
+  KenmonTOTPStorage,
+  decodeBase32,
+  encodeBase32,
+  generateTOTPCode,
+  getTimeStep,
+} from './index'
+
+// RFC 6238 Appendix B test secret ("12345678901234567890" in base32)
+const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+class MockTOTPStorage implements KenmonTOTPStorage {
+  private credentials = new Map<string, KenmonTOTPCredential>()
+
+  async createCredential(userId: string, secret: string) {
+    const id = 'totp-' + Math.random().toString(36).slice(2, 9)
+    const credential: KenmonTOTPCredential = {
+      id,
+      userId,
+      secret,
+      verified: false,
+      createdAt: new Date(),
+    }
+    this.credentials.set(id, credential)
+    return credential
+  }
+
+  async getCredentialByUserId(userId: string) {
+    for (const credential of this.credentials.values()) {
+      // A copy, like a row read from a database
+      if (credential.userId === userId) return { ...credential }
+    }
+    return null
+  }
+
+  async markCredentialAsVerified(id: string) {
+    const credential = this.credentials.get(id)
+    if (credential) credential.verified = true
+  }
+
+  async updateLastUsedStep(id: string, step: number) {
+    const credential = this.credentials.get(id)
+    if (
+      !credential ||
+      (credential.lastUsedStep != null && credential.lastUsedStep >= step)
+    ) {
+      return false
+    }
+    credential.lastUsedStep = step
+    return true
+  }
+
+  async deleteCredential(id: string) {
+    this.credentials.delete(id)
+  }
+}
+
+describe('TOTP helpers', () => {
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('12345678901234567890')
+    expect(encodeBase32(buffer)).toBe(rfcSecret)
+    expect(decodeBase32(rfcSecret).equals(buffer)).toBe(true)
+  })
+
+  it('should match RFC 6238 test vectors', () => {
+    const options = { digits: 8 }
+    expect(generateTOTPCode(rfcSecret, getTimeStep(59 * 1000), options)).toBe(
+      '94287082',
+    )
+    expect(
+      generateTOTPCode(rfcSecret, getTimeStep(1111111109 * 1000), options),
+    ).toBe('07081804')
+    expect(
+      generateTOTPCode(rfcSecret, getTimeStep(2000000000 * 1000), options),
+    ).toBe('69279037')
+  })
+})
+
+describe('KenmonTOTPAuthenticator', () => {
+  let authenticator: KenmonTOTPAuthenticator
+  let storage: MockTOTPStorage
+
+  const currentCode = (secret: string, offset = 0) =>
+    generateTOTPCode(secret, getTimeStep(Date.now()) + offset)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    storage = new MockTOTPStorage()
+    authenticator = new KenmonTOTPAuthenticator({
+      totpStorage: storage,
+      issuer: 'Kenmon',
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should start enrollment with an otpauth URI', async () => {
+    const result = await authenticator.startEnrollment(
+      'user-1',
+      'test@example.com',
+    )
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(result.data.uri).toBe(
+        `otpauth://totp/Kenmon:test%40example.com?secret=${result.data.secret}&issuer=Kenmon&algorithm=SHA1&digits=6&period=30`,
+      )
+    }
+  })
+
+  it('should confirm enrollment and verify codes', async () => {
+    const enrollResult = await authenticator.startEnrollment('user-1', 'test')
+    if (!enrollResult.success) throw new Error('Failed to enroll')
+    const { secret } = enrollResult.data
+
+    // Not usable before confirmation
+    const earlyResult = await authenticator.verifyTOTP({
+      userId: 'user-1',
+      code: currentCode(secret),
+    })
+    expect(earlyResult.success).toBe(false)
+
+    const confirmResult = await authenticator.confirmEnrollment({
+      userId: 'user-1',
+      code: currentCode(secret),
+    })
+    expect(confirmResult.success).toBe(true)
+
+    vi.advanceTimersByTime(30 * 1000)
+
+    const result = await authenticator.verifyTOTP({
+      userId: 'user-1',
+      code: currentCode(secret),
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ type: 'totp', value: 'user-1' })
+    }
+  })
+
+  it('should accept codes within the drift window only', async () => {
+    const enrollResult = await authenticator.startEnrollment('user-1', 'test')
+    if (!enrollResult.success) throw new Error('Failed to enroll')
+    const { secret } = enrollResult.data
+    await authenticator.confirmEnrollment({
+      userId: 'user-1',
+      code: currentCode(secret, -1),
+    })
+
+    const outsideResult = await authenticator.verifyTOTP({
+      userId: 'user-1',
+      code: currentCode(secret, 2),
+    })
+    expect(outsideResult.success).toBe(false)
+    if (!outsideResult.success) {
+      expect((outsideResult.error as KenmonTOTPError).reason).toBe(
+        'invalid-code',
+      )
+    }
+
+    const insideResult = await authenticator.verifyTOTP({
+      userId: 'user-1',
+      code: currentCode(secret, 1),
+    })
+    expect(insideResult.success).toBe(true)
+  })
+
+  it('should reject reused codes', async () => {
+    const enrollResult = await authenticator.startEnrollment('user-1', 'test')
+    if (!enrollResult.success) throw new Error('Failed to enroll')
+    const { secret } = enrollResult.data
+    const code = currentCode(secret)
+
+    await authenticator.confirmEnrollment({ userId: 'user-1', code })
+    const result = await authenticator.verifyTOTP({ userId: 'user-1', code })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect((result.error as KenmonTOTPError).reason).toBe('code-reused')
+    }
+  })
+
+  it('should reject a code used by concurrent requests', async () => {
+    const enrollResult = await authenticator.startEnrollment('user-1', 'test')
+    if (!enrollResult.success) throw new Error('Failed to enroll')
+    const { secret } = enrollResult.data
+    await authenticator.confirmEnrollment({
+      userId: 'user-1',
+      code: currentCode(secret, -1),
+    })
+    const code = currentCode(secret)
+
+    const results = await Promise.all([
+      authenticator.verifyTOTP({ userId: 'user-1', code }),
+      authenticator.verifyTOTP({ userId: 'user-1', code }),
+    ])
+
+    expect(results.filter((result) => result.success)).toHaveLength(1)
+    const failed = results.find((result) => !result.success)
+    expect((failed?.error as KenmonTOTPError).reason).toBe('code-reused')
+  })
+
+  it('should not re-enroll a confirmed user', async () => {
+    const enrollResult = await authenticator.startEnrollment('user-1', 'test')
+    if (!enrollResult.success) throw new Error('Failed to enroll')
+    await authenticator.confirmEnrollment({
+      userId: 'user-1',
+      code: currentCode(enrollResult.data.secret),
+    })
+
+    const result = await authenticator.startEnrollment('user-1', 'test')
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect((result.error as KenmonTOTPError).reason).toBe('already-enrolled')
+    }
+
+    await authenticator.removeEnrollment('user-1')
+    const retryResult = await authenticator.startEnrollment('user-1', 'test')
+    expect(retryResult.success).toBe(true)
+  })
+
+  it('should fail verification for users without enrollment', async () => {
+    const result = await authenticator.verifyTOTP({
+      userId: 'user-1',
+      code: '123456',
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect((result.error as KenmonTOTPError).reason).toBe('not-enrolled')
+    }
+  })
+})
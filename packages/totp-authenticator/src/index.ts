@@ -0,0 +1,291 @@
+import crypto from 'crypto'
+import { z } from 'zod'
+import {
+  KenmonIdentifier,
+  KenmonReturnType,
+  KenmonError,
+  KenmonInvalidPayloadError,
+} from 'kenmon'
+import {
+  KenmonTOTPAlgorithm,
+  buildOtpauthUri,
+  generateTOTPCode,
+  generateTOTPSecret,
+  getTimeStep,
+} from './totp'
+
+export * from './totp'
+
+// TOTP-specific error with reason discriminator
+export type KenmonTOTPErrorReason =
+  | 'not-enrolled'
+  | 'already-enrolled'
+  | 'invalid-code'
+  | 'code-reused'
+
+export interface KenmonTOTPCredential {
+  id: string
+  userId: string
+  secret: string // base32
+  verified: boolean // true once the user confirmed the enrollment with a code
+  lastUsedStep?: number // time step of the last accepted code
+  createdAt: Date
+}
+
+export class KenmonTOTPError extends KenmonError {
+  readonly reason: KenmonTOTPErrorReason
+
+  constructor(reason: KenmonTOTPErrorReason) {
+    const messages: Record<KenmonTOTPErrorReason, string> = {
+      'not-enrolled': 'TOTP is not enrolled for this user',
+      'already-enrolled': 'TOTP is already enrolled for this user',
+      'invalid-code': 'Invalid TOTP code',
+      'code-reused': 'TOTP code has already been used',
+    }
+
+    super(messages[reason])
+    this.name = 'KenmonTOTPError'
+    this.reason = reason
+    Object.setPrototypeOf(this, KenmonTOTPError.prototype)
+  }
+}
+
+// Zod schemas for payload validation
+const totpEnrollDataSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+  accountName: z.string().min(1, 'Account name is required'),
+})
+
+const totpVerifyDataSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+  code: z.string().regex(/^\d+$/, 'TOTP code must be numeric'),
+})
+
+// TOTP Storage interface
+export interface KenmonTOTPStorage {
+  createCredential(
+    userId: string,
+    secret: string,
+  ): Promise<KenmonTOTPCredential>
+  getCredentialByUserId(userId: string): Promise<KenmonTOTPCredential | null>
+  markCredentialAsVerified(id: string): Promise<void>
+  // Set it atomically if it is unset or lower, true if it was
+  updateLastUsedStep(id: string, step: number): Promise<boolean>
+  deleteCredential(id: string): Promise<void>
+}
+
+// TOTP Authenticator configuration
+export interface KenmonTOTPAuthenticatorConfig {
+  totpStorage: KenmonTOTPStorage
+  issuer: string // Shown in authenticator apps, e.g. your product name
+  period?: number // seconds, default 30
+  digits?: number // default 6
+  algorithm?: KenmonTOTPAlgorithm // default 'SHA1'
+  window?: number // accepted drift in time steps on each side, default 1
+}
+
+export class KenmonTOTPAuthenticator {
+  readonly type = 'totp'
+
+  private totpStorage: KenmonTOTPStorage
+  private issuer: string
+  private period: number
+  private digits: number
+  private algorithm: KenmonTOTPAlgorithm
+  private window: number
+
+  constructor(config: KenmonTOTPAuthenticatorConfig) {
+    this.totpStorage = config.totpStorage
+    this.issuer = config.issuer
+    this.period = config.period ?? 30
+    this.digits = config.digits ?? 6
+    this.algorithm = config.algorithm ?? 'SHA1'
+    this.window = config.window ?? 1
+  }
+
+  /**
+   * Start TOTP enrollment for a user.
+   * Any pending (unconfirmed) enrollment is replaced.
+   * @param userId - User to enroll
+   * @param accountName - Label shown in the authenticator app (e.g. email)
+   * @returns The base32 secret and an otpauth:// URI for QR codes
+   */
+  async startEnrollment(
+    userId: string,
+    accountName: string,
+  ): Promise<KenmonReturnType<{ secret: string; uri: string }>> {
+    const result = totpEnrollDataSchema.safeParse({ userId, accountName })
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    try {
+      const existing = await this.totpStorage.getCredentialByUserId(userId)
+      if (existing) {
+        if (existing.verified) {
+          return {
+            success: false,
+            error: new KenmonTOTPError('already-enrolled'),
+          }
+        }
+        await this.totpStorage.deleteCredential(existing.id)
+      }
+
+      const secret = generateTOTPSecret()
+      await this.totpStorage.createCredential(userId, secret)
+
+      const uri = buildOtpauthUri({
+        secret,
+        issuer: this.issuer,
+        accountName,
+        period: this.period,
+        digits: this.digits,
+        algorithm: this.algorithm,
+      })
+
+      return { success: true, data: { secret, uri } }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Confirm a pending enrollment with the first code from the
+   * authenticator app. Call `auth.enableMfa(userId)` once this succeeds.
+   */
+  async confirmEnrollment(payload: {
+    userId: string
+    code: string
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    return this.verify(payload, { enrolling: true })
+  }
+
+  /**
+   * Verify a TOTP code as a second factor.
+   * Pass the returned identifier to `auth.verifyMfa()`.
+   */
+  async verifyTOTP(payload: {
+    userId: string
+    code: string
+  }): Promise<KenmonReturnType<KenmonIdentifier>> {
+    return this.verify(payload, { enrolling: false })
+  }
+
+  /**
+   * Remove the TOTP credential of a user.
+   * Call `auth.disableMfa(userId)` alongside if TOTP was the only factor.
+   */
+  async removeEnrollment(userId: string): Promise<KenmonReturnType<void>> {
+    try {
+      const credential = await this.totpStorage.getCredentialByUserId(userId)
+      if (!credential) {
+        return { success: false, error: new KenmonTOTPError('not-enrolled') }
+      }
+
+      await this.totpStorage.deleteCredential(credential.id)
+
+      return { success: true, data: undefined }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  private async verify(
+    payload: { userId: string; code: string },
+    { enrolling }: { enrolling: boolean },
+  ): Promise<KenmonReturnType<KenmonIdentifier>> {
+    // Validate payload with Zod
+    const result = totpVerifyDataSchema.safeParse(payload)
+    if (!result.success) {
+      return {
+        success: false,
+        error: new KenmonInvalidPayloadError(result.error.issues[0].message),
+      }
+    }
+
+    const { userId, code } = result.data
+
+    try {
+      const credential = await this.totpStorage.getCredentialByUserId(userId)
+      // Pending enrollments can only be confirmed, and confirmed ones only verified
+      if (!credential || credential.verified === enrolling) {
+        return {
+          success: false,
+          error: new KenmonTOTPError(
+            enrolling && credential ? 'already-enrolled' : 'not-enrolled',
+          ),
+        }
+      }
+
+      const matchedStep = this.findMatchingStep(credential.secret, code)
+      if (matchedStep == null) {
+        return {
+          success: false,
+          error: new KenmonTOTPError('invalid-code'),
+        }
+      }
+
+      // Reject replays of the same (or an older) code
+      if (
+        credential.lastUsedStep != null &&
+        matchedStep <= credential.lastUsedStep
+      ) {
+        return {
+          success: false,
+          error: new KenmonTOTPError('code-reused'),
+        }
+      }
+
+      // Claim the step, so concurrent requests with the code can't all succeed
+      if (
+        !(await this.totpStorage.updateLastUsedStep(credential.id, matchedStep))
+      ) {
+        return {
+          success: false,
+          error: new KenmonTOTPError('code-reused'),
+        }
+      }
+
+      if (enrolling) {
+        await this.totpStorage.markCredentialAsVerified(credential.id)
+      }
+
+      // Second-factor identifiers carry the user ID as their value
+      return {
+        success: true,
+        data: {
+          type: 'totp',
+          value: userId,
+        },
+      }
+    } catch (error) {
+      return { success: false, error: error as Error }
+    }
+  }
+
+  /**
+   * Returns the time step the code matches within the drift window,
+   * or null when it matches none of them.
+   */
+  private findMatchingStep(secret: string, code: string): number | null {
+    if (code.length !== this.digits) {
+      return null
+    }
+
+    const currentStep = getTimeStep(Date.now(), this.period)
+    const options = { digits: this.digits, algorithm: this.algorithm }
+
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      const step = currentStep + offset
+      const expected = generateTOTPCode(secret, step, options)
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,142 @@
+import crypto from 'crypto'
+
+export type KenmonTOTPAlgorithm = 'SHA1' | 'SHA256' | 'SHA512'
+
+export interface KenmonTOTPOptions {
+  period?: number // seconds, default 30
+  digits?: number // default 6
+  algorithm?: KenmonTOTPAlgorithm // default 'SHA1'
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Encodes a buffer into an unpadded RFC 4648 base32 string.
+ * Authenticator apps expect secrets in this format.
+ */
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decodes an RFC 4648 base32 string. Padding, whitespace and lowercase
+ * characters are accepted so secrets typed in by users still decode.
+ */
+export function decodeBase32(input: string): Buffer {
+  const normalized = input.replace(/[\s=]/g, '').toUpperCase()
+
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generates a random base32 secret. 20 bytes (160 bits) is the length
+ * recommended by RFC 4226 for HMAC-SHA1.
+ */
+export function generateTOTPSecret(length: number = 20): string {
+  return encodeBase32(crypto.randomBytes(length))
+}
+
+/**
+ * Returns the RFC 6238 time step counter for a timestamp.
+ */
+export function getTimeStep(timestamp: number, period: number = 30): number {
+  return Math.floor(timestamp / 1000 / period)
+}
+
+/**
+ * Generates the code for a given time step (RFC 4226 HOTP with the
+ * RFC 6238 time-based counter).
+ */
+export function generateTOTPCode(
+  secret: string,
+  timeStep: number,
+  options?: KenmonTOTPOptions,
+): string {
+  const digits = options?.digits ?? 6
+  const algorithm = options?.algorithm ?? 'SHA1'
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(timeStep))
+
+  const hmac = crypto
+    .createHmac(algorithm.toLowerCase(), decodeBase32(secret))
+    .update(counter)
+    .digest()
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
+
+/**
+ * Builds an otpauth:// URI which authenticator apps can import,
+ * usually by rendering it as a QR code.
+ *
+ * @see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpauthUri({
+  secret,
+  issuer,
+  accountName,
+  period = 30,
+  digits = 6,
+  algorithm = 'SHA1',
+}: {
+  secret: string
+  issuer: string
+  accountName: string
+} & KenmonTOTPOptions): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm,
+    digits: String(digits),
+    period: String(period),
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}